@@ -0,0 +1,87 @@
+/**
+ * Bounded buffer for entries waiting to be sent
+ */
+
+/**
+ * Which entries to discard when the buffer is full
+ */
+export type OverflowPolicy = "drop-oldest" | "drop-newest";
+
+export interface BufferOptions {
+  /**
+   * Maximum number of entries held in memory (default: 10000)
+   */
+  maxSize?: number;
+  /**
+   * What to discard when full (default: "drop-oldest")
+   */
+  overflow?: OverflowPolicy;
+}
+
+export class BoundedBuffer<T> {
+  private items: T[] = [];
+  private maxSize: number;
+  private overflow: OverflowPolicy;
+  private _dropped = 0;
+
+  constructor(options: BufferOptions = {}) {
+    this.maxSize = Math.max(1, options.maxSize ?? 10000);
+    this.overflow = options.overflow ?? "drop-oldest";
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.maxSize) {
+      this.items.push(item);
+      return;
+    }
+
+    this._dropped++;
+    if (this.overflow === "drop-oldest") {
+      this.items.shift();
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * Put a batch that failed to send back in front of newer entries
+   */
+  requeue(batch: T[]): void {
+    const combined = [...batch, ...this.items];
+    const excess = combined.length - this.maxSize;
+
+    if (excess > 0) {
+      this._dropped += excess;
+      if (this.overflow === "drop-oldest") {
+        combined.splice(0, excess);
+      } else {
+        combined.length = this.maxSize;
+      }
+    }
+
+    this.items = combined;
+  }
+
+  /**
+   * Remove and return everything in the buffer
+   */
+  drain(): T[] {
+    const drained = this.items;
+    this.items = [];
+    return drained;
+  }
+
+  /**
+   * Count entries discarded outside the buffer (e.g. after retries ran out)
+   */
+  markDropped(count: number): void {
+    this._dropped += count;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  get dropped(): number {
+    return this._dropped;
+  }
+}
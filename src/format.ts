@@ -0,0 +1,121 @@
+/**
+ * Machine-readable console formats for log entries (one line per entry)
+ */
+
+export type LogFormat = "pretty" | "json" | "logfmt";
+
+export interface FormattableEntry {
+  level: string;
+  message: string;
+  metadata?: any;
+  tags?: string[];
+  timestamp: string;
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * JSON.stringify that replaces circular references instead of throwing
+ */
+function safeStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === "bigint") return item.toString();
+    if (typeof item === "object" && item !== null) {
+      if (seen.has(item)) return "[Circular]";
+      seen.add(item);
+    }
+    return item;
+  });
+}
+
+/**
+ * Format an entry as a single JSON line
+ */
+export function formatJson(
+  entry: FormattableEntry,
+  identifier: string,
+): string {
+  return safeStringify({
+    level: entry.level,
+    identifier,
+    timestamp: entry.timestamp,
+    message: entry.message,
+    metadata: entry.metadata,
+    tags: entry.tags,
+    traceId: entry.traceId,
+    spanId: entry.spanId,
+  });
+}
+
+/**
+ * Quote a logfmt value when it contains spaces, quotes or "="
+ */
+function logfmtValue(value: unknown): string {
+  const str =
+    typeof value === "string"
+      ? value
+      : value === undefined
+        ? ""
+        : safeStringify(value);
+  if (str === "" || /[\s"=\\]/.test(str)) {
+    return `"${str
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r")
+      .replace(/\t/g, "\\t")}"`;
+  }
+  return str;
+}
+
+/**
+ * Flatten nested metadata into dotted logfmt keys
+ */
+function flatten(
+  value: unknown,
+  prefix: string,
+  pairs: Array<[string, unknown]>,
+  seen: WeakSet<object>,
+): void {
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !seen.has(value)
+  ) {
+    seen.add(value);
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix ? `${prefix}.${key}` : key, pairs, seen);
+    }
+    return;
+  }
+  pairs.push([prefix, value]);
+}
+
+/**
+ * Format an entry as a single logfmt line
+ */
+export function formatLogfmt(
+  entry: FormattableEntry,
+  identifier: string,
+): string {
+  const pairs: Array<[string, unknown]> = [
+    ["level", entry.level],
+    ["identifier", identifier],
+    ["timestamp", entry.timestamp],
+    ["message", entry.message],
+  ];
+
+  if (entry.traceId) pairs.push(["traceId", entry.traceId]);
+  if (entry.spanId) pairs.push(["spanId", entry.spanId]);
+  if (entry.tags && entry.tags.length > 0) {
+    pairs.push(["tags", entry.tags.join(",")]);
+  }
+  if (entry.metadata !== undefined) {
+    flatten(entry.metadata, "metadata", pairs, new WeakSet());
+  }
+
+  return pairs.map(([key, value]) => `${key}=${logfmtValue(value)}`).join(" ");
+}
@@ -1,30 +1,136 @@
 import chalk from "chalk";
 import { inspect } from "node:util";
-import { encryptPayload } from "./crypto";
-
+import { BoundedBuffer, type BufferOptions } from "./buffer";
+import { formatJson, formatLogfmt, type LogFormat } from "./format";
+import { isLevelEnabled, resolveLevel, type LogLevel } from "./levels";
+import { Redactor, type RedactionOptions } from "./redaction";
+import { Backoff, type RetryOptions } from "./retry";
+import { registerShutdownTarget } from "./shutdown";
+import { DiskSpool, type SpoolOptions } from "./spool";
+import type { LoggyTracer } from "./tracing";
+import { pickBaggage } from "./tracing/baggage";
+import { HttpTransport, type Transport } from "./transports";
+
+export type { BufferOptions, OverflowPolicy } from "./buffer";
+export type { LogFormat } from "./format";
+export { LOG_LEVELS, type LogLevel } from "./levels";
+export {
+  OtlpLogExporter,
+  OtlpTraceExporter,
+  toOtlpLogsRequest,
+  toOtlpTraceRequest,
+  type ExportLogsServiceRequest,
+  type ExportTraceServiceRequest,
+  type OtlpAnyValue,
+  type OtlpKeyValue,
+  type OtlpLogExporterOptions,
+  type OtlpLogRecord,
+  type OtlpSpan,
+  type OtlpTraceExporterOptions,
+} from "./otlp";
+export {
+  Redactor,
+  type RedactionOptions,
+  type RedactionPatternName,
+  type RedactionStrategy,
+} from "./redaction";
+export {
+  createMetricsMiddleware,
+  type MetricsMiddlewareOptions,
+} from "./metrics-middleware";
+export type {
+  Counter,
+  Gauge,
+  GaugeCallback,
+  Histogram,
+  HistogramOptions,
+  InstrumentPayload,
+  InstrumentType,
+  MetricLabels,
+} from "./instruments";
+export type { PathOptions } from "./paths";
+export type { PrometheusHandlerOptions, PrometheusOptions } from "./prometheus";
+export type { RetryOptions } from "./retry";
+export {
+  enableGracefulShutdown,
+  shutdown,
+  type GracefulShutdownOptions,
+} from "./shutdown";
+export type { SpoolOptions } from "./spool";
 export {
   CreateMetrics,
+  DEFAULT_HISTOGRAM_BUCKETS,
+  type DurationHistogram,
   type LoggyMetrics,
+  type MetricBatch,
+  type MetricPayload,
   type MetricsConfig,
 } from "./metrics";
 
+export {
+  FileTransport,
+  HttpTransport,
+  MemoryTransport,
+  StdoutTransport,
+  type FileTransportOptions,
+  type HttpTransportOptions,
+  type StdoutTransportOptions,
+  type Transport,
+} from "./transports";
+
 // Tracing exports
 export {
+  AlwaysOffSampler,
+  AlwaysOnSampler,
+  B3MultiPropagator,
+  B3SinglePropagator,
+  baggage,
+  BatchSpanProcessor,
+  CompositePropagator,
+  context,
+  createFastifyTracingPlugin,
+  createHonoTracingMiddleware,
+  createHttpTracingHandler,
+  createKoaTracingMiddleware,
   CreateTracer,
   createTracingMiddleware,
+  formatBaggage,
+  formatTracestate,
   generateSpanId,
   generateTraceId,
+  instrumentHttp,
+  JaegerPropagator,
+  LOGGY_TRACESTATE_KEY,
   LoggySpan,
   LoggyTracer,
+  ParentBasedSampler,
+  parseBaggage,
+  parseTracestate,
+  setTracestateEntry,
+  SimpleSpanProcessor,
+  TraceIdRatioSampler,
+  W3CTraceContextPropagator,
   withSpan,
+  type ActiveContext,
+  type Baggage,
+  type BaggageEntry,
+  type BatchSpanProcessorOptions,
+  type HttpInstrumentationOptions,
+  type Propagator,
   type Span,
   type SpanAttributes,
+  type Sampler,
+  type SamplingParams,
+  type ServerTracingOptions,
+  type SpanBatch,
   type SpanContext,
   type SpanData,
   type SpanEvent,
   type SpanKind,
   type SpanOptions,
+  type SpanProcessor,
   type SpanStatus,
+  type TailSamplingOptions,
   type Tracer,
   type TracerConfig,
 } from "./tracing";
@@ -37,6 +143,9 @@ export {
  * @property {string} identifier - An identifier for the logger (e.g., "app", "server", "test").
  * @property {boolean} color - Whether to use colored output.
  * @property {boolean} compact - Compact output for tags.
+ * @property {LogFormat} format - Console output format: "pretty" (default), "json" or "logfmt".
+ * @property {LogLevel} level - Minimum level to output (overridden by the LOGGY_LEVEL env variable).
+ * @property {LoggyTracer} tracer - Tracer used to correlate log entries with the active span.
  */
 
 interface LoggyConfig {
@@ -44,8 +153,26 @@ interface LoggyConfig {
   color?: boolean;
   compact?: boolean;
   timestamp?: boolean;
+  /**
+   * Console output format. "json" and "logfmt" write one line per entry
+   * for log shippers; "pretty" (default) is meant for local development.
+   */
+  format?: LogFormat;
+  /**
+   * Minimum level for console and remote output (default: "trace").
+   * The LOGGY_LEVEL env variable takes precedence when set.
+   */
+  level?: LogLevel;
+  /**
+   * Minimum level for console output, overrides `level`
+   */
+  consoleLevel?: LogLevel;
   remote?: {
     token: string;
+    /**
+     * Minimum level sent to the remote endpoint, overrides `level`
+     */
+    level?: LogLevel;
     endpoint?: string;
     batchSize?: number;
     flushInterval?: number;
@@ -65,13 +192,56 @@ interface LoggyConfig {
      */
     exceptions?: boolean;
   };
+  /**
+   * Custom transport for log batches. Replaces the HTTP transport built
+   * from `remote.token`/`remote.endpoint`; batching still uses
+   * `remote.batchSize` and `remote.flushInterval`.
+   */
+  transport?: Transport<LogBatch>;
+  /**
+   * Backoff between failed remote flushes and attempts before a batch is
+   * dropped
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit on logs held in memory while waiting to be sent
+   */
+  buffer?: BufferOptions;
+  /**
+   * Write batches that could not be delivered to disk and replay them on
+   * the next start
+   */
+  spool?: SpoolOptions;
+  /**
+   * Redact sensitive values in metadata and tags before they are printed
+   * or queued for remote delivery
+   */
+  redact?: RedactionOptions;
+  /**
+   * Tracer whose active span is stamped onto every log entry as
+   * traceId/spanId for log-trace correlation
+   */
+  tracer?: LoggyTracer;
+  /**
+   * Also record warn and error logs as "log" events on the active span
+   * (requires `tracer`)
+   */
+  spanEvents?: boolean;
+  /**
+   * Copy entries of the active baggage into every entry's metadata: all of
+   * them for `true`, only the listed keys for an array
+   */
+  baggage?: boolean | string[];
 }
 
 const LEVEL_COLORS = {
+  TRACE: "#B2BEB5",
+  DEBUG: "#ADD8E6",
   LOG: "#ADD8E6",
   INFO: "#ADD8E6",
   WARN: "#FFBF00",
   ERROR: "#CC5500",
+  FATAL: "#D2042D",
 };
 
 const formatTags = (compact: boolean, color: boolean, tags?: any): string => {
@@ -87,12 +257,21 @@ const formatTimestamp = (color: boolean): string => {
   )(date.toLocaleTimeString())}`;
 };
 
-interface LogEntry {
-  level: string;
+export interface LogEntry {
+  level: LogLevel;
   message: string;
   metadata?: any;
   tags?: string[];
   timestamp: string;
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * Payload handed to the log transport on each flush
+ */
+export interface LogBatch {
+  logs: LogEntry[];
 }
 
 interface LogOptions {
@@ -100,25 +279,106 @@ interface LogOptions {
   tags?: string[];
 }
 
+/**
+ * Context fields bound to a child logger
+ */
+export type LogBindings = Record<string, unknown>;
+
+type LogMethod = (
+  message: string,
+  optionsOrMetadata?: LogOptions | any,
+) => void;
+
+export interface LoggyLogger {
+  trace: LogMethod;
+  debug: LogMethod;
+  log: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+  fatal: LogMethod;
+  blank: (lines?: number) => void;
+  flush: () => Promise<void>;
+  /**
+   * Number of log entries dropped because the buffer was full or a batch
+   * ran out of retry attempts
+   */
+  getDroppedCount: () => number;
+  /**
+   * Create a logger that adds the given fields to every entry's metadata
+   * (and primitive fields as "key:value" tags). Child loggers share the
+   * parent's buffer, flush timer and remote transport.
+   */
+  child: (bindings: LogBindings) => LoggyLogger;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Convert primitive bindings into "key:value" tags
+ */
+const bindingsToTags = (bindings: LogBindings): string[] =>
+  Object.entries(bindings)
+    .filter(
+      ([, value]) =>
+        typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean",
+    )
+    .map(([key, value]) => `${key}:${value}`);
+
+/**
+ * Merge bound fields into an entry's metadata. Non-object metadata is kept
+ * under a "value" key.
+ */
+const mergeBindings = (bindings: LogBindings, metadata: any): any => {
+  if (metadata === undefined) return { ...bindings };
+  if (isPlainObject(metadata)) return { ...bindings, ...metadata };
+  return { ...bindings, value: metadata };
+};
+
 export const CreateLoggy = (config: LoggyConfig) => {
   const {
     identifier,
     color = true,
     compact = false,
     timestamp = true,
+    format = "pretty",
     remote,
     capture,
+    tracer,
+    spanEvents = false,
   } = config;
+  const minLevel = resolveLevel(config.level);
+  const consoleLevel = config.consoleLevel ?? minLevel;
+  const remoteLevel = remote?.level ?? minLevel;
+  const redactor = config.redact ? new Redactor(config.redact) : undefined;
   const styledIdentifier = color
     ? chalk.hex("#B2BEB5")(identifier)
     : identifier;
 
   // Remote logging state
-  let logBuffer: LogEntry[] = [];
+  const logBuffer = new BoundedBuffer<LogEntry>(config.buffer);
+  const backoff = new Backoff(config.retry);
+  const spool = config.spool
+    ? new DiskSpool<LogBatch>("logs", config.spool)
+    : undefined;
   let flushTimer: ReturnType<typeof setInterval> | null = null;
   const batchSize = remote?.batchSize ?? 50;
   const flushInterval = remote?.flushInterval ?? 5000;
-  const endpoint = remote?.endpoint ?? "https://loggy.dev/api/logs/ingest";
+  const transport: Transport<LogBatch> | undefined =
+    config.transport ??
+    (remote?.token
+      ? new HttpTransport({
+          endpoint: remote.endpoint ?? "https://loggy.dev/api/logs/ingest",
+          token: remote.token,
+          publicKey: remote.publicKey,
+        })
+      : undefined);
 
   // Store original console methods for restoration
   const originalConsole = {
@@ -132,47 +392,44 @@ export const CreateLoggy = (config: LoggyConfig) => {
   let consolePatched = false;
   let exceptionHandlersInstalled = false;
 
-  const flushLogs = async () => {
-    if (!remote?.token || logBuffer.length === 0) return;
+  // Send buffered logs; unless forced, wait out the backoff after failures
+  const flushLogs = async (force = false) => {
+    if (!transport || logBuffer.length === 0) return;
+    if (!force && !backoff.canAttempt()) return;
 
-    const logsToSend = [...logBuffer];
-    logBuffer = [];
+    const logsToSend = logBuffer.drain();
     try {
-      let body: string;
-      let contentType = "application/json";
-
-      if (remote.publicKey) {
-        // Encrypt the payload using hybrid encryption
-        const encrypted = encryptPayload(
-          { logs: logsToSend },
-          remote.publicKey,
-        );
-        body = JSON.stringify(encrypted);
-        contentType = "application/json+encrypted";
-      } else {
-        body = JSON.stringify({ logs: logsToSend });
+      await transport.send({ logs: logsToSend });
+      backoff.onSuccess();
+    } catch {
+      if (backoff.onFailure()) {
+        logBuffer.requeue(logsToSend);
+      } else if (!spool?.write({ logs: logsToSend })) {
+        logBuffer.markDropped(logsToSend.length);
       }
+    }
+  };
 
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": contentType,
-          "x-loggy-token": remote.token,
-        },
-        body,
-      });
+  // Flush buffered logs and wait for the transport to finish writing
+  const flush = async () => {
+    await flushLogs(true);
+    await transport?.flush?.();
+  };
 
-      if (!response.ok) {
-        logBuffer = [...logsToSend, ...logBuffer];
-      } else {
-      }
-    } catch (err) {
-      logBuffer = [...logsToSend, ...logBuffer];
+  // Correlate with the span active in the caller's async context
+  const correlate = (entry: LogEntry) => {
+    if (tracer && !entry.traceId) {
+      const { traceId, spanId } = tracer.getCurrentContext();
+      entry.traceId = traceId;
+      entry.spanId = spanId;
     }
   };
 
   const queueLog = (entry: LogEntry) => {
-    if (!remote?.token) return;
+    if (!transport) return;
+    if (!isLevelEnabled(entry.level, remoteLevel)) return;
+
+    correlate(entry);
 
     logBuffer.push(entry);
 
@@ -181,11 +438,19 @@ export const CreateLoggy = (config: LoggyConfig) => {
     }
   };
 
-  // Start flush timer if remote is configured
-  if (remote?.token) {
-    flushTimer = setInterval(flushLogs, flushInterval);
+  // Start flush timer if a transport is configured
+  if (transport) {
+    flushTimer = setInterval(() => flushLogs(), flushInterval);
+    // Unref'd so a finished script reaches beforeExit and flushes there
+    flushTimer.unref?.();
   }
 
+  // Deliver batches spooled by a previous process
+  const replaying =
+    transport && spool
+      ? spool.replay((batch) => transport.send(batch)).catch(() => {})
+      : Promise.resolve();
+
   const formatMessage = (
     levelLabel: keyof typeof LEVEL_COLORS,
     message: string,
@@ -204,10 +469,14 @@ export const CreateLoggy = (config: LoggyConfig) => {
   const createLogger =
     (
       levelLabel: keyof typeof LEVEL_COLORS,
-      level: string,
+      level: LogLevel,
       consoleFn: typeof console.log,
-    ) =>
+      bindings?: LogBindings,
+    ): LogMethod =>
     (message: string, optionsOrMetadata?: LogOptions | any) => {
+      const toConsole = isLevelEnabled(level, consoleLevel);
+      if (!toConsole && !isLevelEnabled(level, remoteLevel)) return;
+
       // Support both old API (metadata as second param) and new API (options object with metadata and tags)
       let metadata: any = undefined;
       let tags: string[] | undefined = undefined;
@@ -227,16 +496,55 @@ export const CreateLoggy = (config: LoggyConfig) => {
         }
       }
 
-      consoleFn(formatMessage(levelLabel, message, metadata));
+      if (bindings) {
+        metadata = mergeBindings(bindings, metadata);
+        // Key paths apply to bound fields before they become tags
+        const tagged = redactor ? redactor.redact(bindings) : bindings;
+        tags = [...bindingsToTags(tagged), ...(tags ?? [])];
+      }
 
-      // Queue for remote logging
-      queueLog({
+      // Baggage fields yield to metadata and bound fields of the same name
+      if (config.baggage) {
+        const fields = pickBaggage(config.baggage);
+        if (Object.keys(fields).length > 0) {
+          metadata = mergeBindings(fields, metadata);
+        }
+      }
+
+      // Redact before anything is printed or queued
+      if (redactor) {
+        metadata = redactor.redact(metadata);
+        tags = tags && redactor.redactTags(tags);
+      }
+
+      const entry: LogEntry = {
         level,
         message,
         metadata,
         tags,
         timestamp: new Date().toISOString(),
-      });
+      };
+      correlate(entry);
+
+      if (toConsole) {
+        if (format === "json") {
+          consoleFn(formatJson(entry, identifier));
+        } else if (format === "logfmt") {
+          consoleFn(formatLogfmt(entry, identifier));
+        } else {
+          consoleFn(formatMessage(levelLabel, message, metadata));
+        }
+      }
+
+      if (spanEvents && isLevelEnabled(level, "warn")) {
+        tracer?.getCurrentSpan()?.addEvent("log", {
+          "log.severity": level,
+          "log.message": message,
+        });
+      }
+
+      // Queue for remote logging
+      queueLog(entry);
     };
 
   // Helper to convert console arguments to a string message
@@ -278,7 +586,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
         queueLog({
           level: "debug",
           message,
-          metadata,
+          metadata: redactor ? redactor.redact(metadata) : metadata,
           timestamp: new Date().toISOString(),
         });
     };
@@ -290,7 +598,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
         queueLog({
           level: "info",
           message,
-          metadata,
+          metadata: redactor ? redactor.redact(metadata) : metadata,
           timestamp: new Date().toISOString(),
         });
     };
@@ -302,7 +610,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
         queueLog({
           level: "warn",
           message,
-          metadata,
+          metadata: redactor ? redactor.redact(metadata) : metadata,
           timestamp: new Date().toISOString(),
         });
     };
@@ -314,7 +622,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
         queueLog({
           level: "error",
           message,
-          metadata,
+          metadata: redactor ? redactor.redact(metadata) : metadata,
           timestamp: new Date().toISOString(),
         });
     };
@@ -334,7 +642,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
         timestamp: new Date().toISOString(),
       });
       // Flush immediately on exception
-      flushLogs();
+      flushLogs(true);
     };
 
     unhandledRejectionHandler = (reason: any) => {
@@ -349,7 +657,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
         metadata,
         timestamp: new Date().toISOString(),
       });
-      flushLogs();
+      flushLogs(true);
     };
 
     process.on("uncaughtException", uncaughtExceptionHandler);
@@ -383,21 +691,48 @@ export const CreateLoggy = (config: LoggyConfig) => {
   setupConsoleCapture();
   setupExceptionCapture();
 
-  return {
-    log: createLogger("LOG", "debug", originalConsole.log),
-    info: createLogger("INFO", "info", originalConsole.info),
-    warn: createLogger("WARN", "warn", originalConsole.warn),
-    error: createLogger("ERROR", "error", originalConsole.error),
+  // Let the graceful shutdown manager flush this logger
+  const unregister = registerShutdownTarget({
+    destroy: () => instance.destroy(),
+  });
+
+  // Build the logging methods, optionally with bound context fields
+  const createMethods = (bindings?: LogBindings): LoggyLogger => ({
+    trace: createLogger("TRACE", "trace", originalConsole.log, bindings),
+    debug: createLogger("DEBUG", "debug", originalConsole.log, bindings),
+    log: createLogger("LOG", "debug", originalConsole.log, bindings),
+    info: createLogger("INFO", "info", originalConsole.info, bindings),
+    warn: createLogger("WARN", "warn", originalConsole.warn, bindings),
+    error: createLogger("ERROR", "error", originalConsole.error, bindings),
+    fatal: createLogger("FATAL", "fatal", originalConsole.error, bindings),
     blank: (lines: number = 1) => originalConsole.log("\n".repeat(lines)),
-    flush: flushLogs,
-    destroy: () => {
+    flush,
+    getDroppedCount: () => logBuffer.dropped,
+    child: (childBindings: LogBindings) =>
+      createMethods({ ...bindings, ...childBindings }),
+  });
+
+  const instance = {
+    ...createMethods(),
+    destroy: async () => {
+      unregister();
       if (flushTimer) {
         clearInterval(flushTimer);
         flushTimer = null;
       }
       restoreConsole();
       removeExceptionHandlers();
-      return flushLogs();
+      await flushLogs(true);
+      await replaying;
+      if (spool) {
+        // Keep whatever the final flush could not deliver
+        const remaining = logBuffer.drain();
+        if (remaining.length > 0 && !spool.write({ logs: remaining })) {
+          logBuffer.markDropped(remaining.length);
+        }
+        spool.close();
+      }
+      await transport?.close?.();
     },
     /**
      * Restore original console methods without destroying the logger
@@ -408,4 +743,7 @@ export const CreateLoggy = (config: LoggyConfig) => {
      */
     enableConsoleCapture: setupConsoleCapture,
   };
+  return instance;
 };
+
+export type Loggy = ReturnType<typeof CreateLoggy>;
@@ -0,0 +1,311 @@
+/**
+ * Application metric instruments (counters, gauges and histograms) for
+ * CreateMetrics, aggregated into the same minute buckets as request metrics
+ */
+
+import type { DurationHistogram } from "./metrics";
+
+export type InstrumentType = "counter" | "gauge" | "histogram";
+
+export type MetricLabels = Record<string, string | number | boolean>;
+
+export interface Counter {
+  /**
+   * Add to the counter (default: 1); negative values are ignored
+   */
+  add(value?: number): void;
+}
+
+export interface Gauge {
+  /**
+   * Record the current value
+   */
+  set(value: number): void;
+}
+
+export interface Histogram {
+  /**
+   * Record one measurement
+   */
+  record(value: number): void;
+}
+
+export interface HistogramOptions {
+  /**
+   * Upper bounds of the histogram buckets (default: the metrics
+   * `histogramBuckets`)
+   */
+  buckets?: number[];
+}
+
+/**
+ * Read by observable gauges when metrics are flushed; return undefined to
+ * skip a reading
+ */
+export type GaugeCallback = () => number | undefined;
+
+/**
+ * Aggregated instrument values for one minute, name and label set as sent
+ * to the server
+ */
+export interface InstrumentPayload {
+  timestamp: string;
+  name: string;
+  type: InstrumentType;
+  labels?: Record<string, string>;
+  /**
+   * Counter: sum of increments. Gauge: last value.
+   */
+  value?: number;
+  /**
+   * Histogram: number and sum of measurements
+   */
+  count?: number;
+  sum?: number;
+  min?: number;
+  max?: number;
+  histogram?: DurationHistogram;
+}
+
+interface InstrumentBucket {
+  timestamp: Date;
+  name: string;
+  type: InstrumentType;
+  labels: Record<string, string> | null;
+  value: number;
+  count: number;
+  sum: number;
+  min: number | null;
+  max: number | null;
+  bounds: number[] | null;
+  counts: number[] | null;
+}
+
+interface ObservableGauge {
+  name: string;
+  labels: MetricLabels | undefined;
+  callback: GaugeCallback;
+}
+
+/**
+ * Normalize labels to strings with a stable key order
+ */
+function normalizeLabels(
+  labels: MetricLabels = {},
+): Record<string, string> | null {
+  const keys = Object.keys(labels).sort();
+  if (keys.length === 0) return null;
+  const normalized: Record<string, string> = {};
+  for (const key of keys) {
+    normalized[key] = String(labels[key]);
+  }
+  return normalized;
+}
+
+function roundToMinute(date: Date): Date {
+  const rounded = new Date(date);
+  rounded.setSeconds(0, 0);
+  return rounded;
+}
+
+function toPayload(bucket: InstrumentBucket): InstrumentPayload {
+  const payload: InstrumentPayload = {
+    timestamp: bucket.timestamp.toISOString(),
+    name: bucket.name,
+    type: bucket.type,
+    labels: bucket.labels ?? undefined,
+  };
+  if (bucket.type !== "histogram") payload.value = bucket.value;
+  if (bucket.type !== "counter") {
+    payload.min = bucket.min ?? undefined;
+    payload.max = bucket.max ?? undefined;
+  }
+  if (bucket.type === "histogram") {
+    payload.count = bucket.count;
+    payload.sum = bucket.sum;
+    payload.histogram = { bounds: bucket.bounds!, counts: [...bucket.counts!] };
+  }
+  return payload;
+}
+
+export interface InstrumentsOptions {
+  /**
+   * Drop buckets from earlier minutes whenever a new one is created, for
+   * when nothing drains them
+   */
+  dropCompleted?: boolean;
+}
+
+/**
+ * Create the instrument registry used by CreateMetrics
+ */
+export const createInstruments = (
+  defaultBounds: number[],
+  options: InstrumentsOptions = {},
+) => {
+  // Instrument buckets keyed by minute, type, name and labels
+  const buckets = new Map<string, InstrumentBucket>();
+  const observables: ObservableGauge[] = [];
+
+  const getBucket = (
+    type: InstrumentType,
+    name: string,
+    labels: Record<string, string> | null,
+    timestamp: Date,
+    bounds: number[] | null = null,
+  ): InstrumentBucket => {
+    const minute = roundToMinute(timestamp);
+    const key = `${minute.toISOString()}|${type}|${name}|${JSON.stringify(labels)}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      if (options.dropCompleted) drain();
+      bucket = {
+        timestamp: minute,
+        name,
+        type,
+        labels,
+        value: 0,
+        count: 0,
+        sum: 0,
+        min: null,
+        max: null,
+        bounds,
+        counts: bounds ? new Array(bounds.length + 1).fill(0) : null,
+      };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  const track = (bucket: InstrumentBucket, value: number) => {
+    if (bucket.min === null || value < bucket.min) bucket.min = value;
+    if (bucket.max === null || value > bucket.max) bucket.max = value;
+  };
+
+  const setGauge = (
+    name: string,
+    labels: Record<string, string> | null,
+    value: number,
+  ) => {
+    const bucket = getBucket("gauge", name, labels, new Date());
+    bucket.value = value;
+    track(bucket, value);
+  };
+
+  const counter = (name: string, labels?: MetricLabels): Counter => {
+    const normalized = normalizeLabels(labels);
+    return {
+      add: (value = 1) => {
+        if (!(value >= 0)) return;
+        getBucket("counter", name, normalized, new Date()).value += value;
+      },
+    };
+  };
+
+  const gauge = (
+    name: string,
+    labels?: MetricLabels,
+    callback?: GaugeCallback,
+  ): Gauge => {
+    const normalized = normalizeLabels(labels);
+    if (callback) observables.push({ name, labels, callback });
+    return { set: (value) => setGauge(name, normalized, value) };
+  };
+
+  const histogram = (
+    name: string,
+    labels?: MetricLabels,
+    options: HistogramOptions = {},
+  ): Histogram => {
+    const normalized = normalizeLabels(labels);
+    const bounds = options.buckets
+      ? [...options.buckets].sort((a, b) => a - b)
+      : defaultBounds;
+    return {
+      record: (value) => {
+        const bucket = getBucket(
+          "histogram",
+          name,
+          normalized,
+          new Date(),
+          bounds,
+        );
+        bucket.count++;
+        bucket.sum += value;
+        track(bucket, value);
+        const index = bounds.findIndex((bound) => value <= bound);
+        bucket.counts![index === -1 ? bounds.length : index]++;
+      },
+    };
+  };
+
+  /**
+   * Read every observable gauge into the current minute
+   */
+  const observe = (): void => {
+    for (const { name, labels, callback } of observables) {
+      try {
+        const value = callback();
+        if (typeof value === "number") {
+          setGauge(name, normalizeLabels(labels), value);
+        }
+      } catch {
+        // A failing callback must not break the flush
+      }
+    }
+  };
+
+  /**
+   * Remove and return buckets; unless `all`, the current minute is kept
+   */
+  const drain = (all = false): InstrumentBucket[] => {
+    const currentMinute = roundToMinute(new Date()).getTime();
+    const drained: InstrumentBucket[] = [];
+    for (const [key, bucket] of buckets) {
+      if (all || bucket.timestamp.getTime() !== currentMinute) {
+        drained.push(bucket);
+        buckets.delete(key);
+      }
+    }
+    return drained;
+  };
+
+  /**
+   * Put an unsent bucket back, merging with any data recorded since
+   */
+  const restore = (bucket: InstrumentBucket): void => {
+    const existing = getBucket(
+      bucket.type,
+      bucket.name,
+      bucket.labels,
+      bucket.timestamp,
+      bucket.bounds,
+    );
+
+    if (bucket.type === "counter") existing.value += bucket.value;
+    // Gauges keep the newer value when one was set since
+    if (bucket.type === "gauge" && existing.min === null) {
+      existing.value = bucket.value;
+    }
+    existing.count += bucket.count;
+    existing.sum += bucket.sum;
+    if (bucket.min !== null) track(existing, bucket.min);
+    if (bucket.max !== null) track(existing, bucket.max);
+    bucket.counts?.forEach((count, i) => {
+      existing.counts![i] += count;
+    });
+  };
+
+  return {
+    counter,
+    gauge,
+    histogram,
+    observe,
+    drain,
+    restore,
+    toPayload,
+    get size() {
+      return buckets.size;
+    },
+  };
+};
@@ -0,0 +1,41 @@
+/**
+ * Log level hierarchy for Loggy, from most to least verbose
+ */
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+/**
+ * Check whether a string is a known log level
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(LOG_LEVELS, value)
+  );
+}
+
+/**
+ * Resolve the minimum level, letting the LOGGY_LEVEL env variable override
+ * the configured one. Unknown values are ignored.
+ */
+export function resolveLevel(configured?: LogLevel): LogLevel {
+  const fromEnv = process.env.LOGGY_LEVEL?.trim().toLowerCase();
+  if (isLogLevel(fromEnv)) return fromEnv;
+  return configured ?? "trace";
+}
+
+/**
+ * Check whether a level passes a minimum level threshold
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS[level] >= LOG_LEVELS[threshold];
+}
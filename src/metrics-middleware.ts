@@ -0,0 +1,110 @@
+/**
+ * Express middleware for automatic request metrics
+ *
+ * The request type below only describes what the middleware uses, so
+ * express does not have to be installed.
+ */
+
+import type { ServerResponse } from "node:http";
+import type { LoggyMetrics } from "./metrics";
+import { OTHER_PATH } from "./paths";
+
+export interface MetricsMiddlewareOptions {
+  metrics: LoggyMetrics;
+  /**
+   * Path prefixes that are not recorded, e.g. ["/health"]
+   */
+  ignoreRoutes?: string[];
+  /**
+   * Distinct route templates recorded before further routes are grouped
+   * under "__other__" (default: 100)
+   */
+  maxRoutes?: number;
+}
+
+interface ExpressRequest {
+  method: string;
+  path: string;
+  baseUrl: string;
+  route?: { path?: string };
+  get(name: string): string | undefined;
+}
+
+/**
+ * Byte length of a chunk passed to res.write/res.end
+ */
+function chunkLength(chunk: any, encoding?: any): number {
+  if (!chunk || typeof chunk === "function") return 0;
+  if (typeof chunk === "string") {
+    return Buffer.byteLength(
+      chunk,
+      typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8",
+    );
+  }
+  return chunk.length ?? 0;
+}
+
+/**
+ * Create Express middleware that records every request with its route
+ * template, method, status and byte counts
+ */
+export function createMetricsMiddleware(options: MetricsMiddlewareOptions) {
+  const { metrics, ignoreRoutes = [], maxRoutes = 100 } = options;
+  const routes = new Set<string>();
+
+  // Cap the number of distinct route labels
+  const guardRoute = (route: string): string => {
+    if (routes.has(route)) return route;
+    if (routes.size >= maxRoutes) return OTHER_PATH;
+    routes.add(route);
+    return route;
+  };
+
+  return (
+    req: ExpressRequest,
+    res: ServerResponse,
+    next: (err?: unknown) => void,
+  ) => {
+    // Skip ignored routes
+    if (ignoreRoutes.some((route) => req.path.startsWith(route))) {
+      return next();
+    }
+
+    const end = metrics.startRequest();
+    const contentLength = Number(req.get("content-length"));
+    let bytesOut = 0;
+    let recorded = false;
+
+    const originalWrite = res.write;
+    const originalEnd = res.end;
+
+    res.write = function (chunk: any, encoding?: any, callback?: any) {
+      bytesOut += chunkLength(chunk, encoding);
+      return originalWrite.call(res, chunk, encoding, callback);
+    } as ServerResponse["write"];
+
+    res.end = function (chunk?: any, encoding?: any, callback?: any) {
+      if (!recorded) {
+        recorded = true;
+        bytesOut += chunkLength(chunk, encoding);
+
+        // The route is only known once a route handler matched
+        const route = req.route?.path
+          ? guardRoute(`${req.baseUrl}${req.route.path}`)
+          : undefined;
+
+        end({
+          statusCode: res.statusCode,
+          method: req.method,
+          path: route,
+          bytesIn: Number.isFinite(contentLength) ? contentLength : undefined,
+          bytesOut,
+        });
+      }
+
+      return originalEnd.call(res, chunk, encoding, callback);
+    } as ServerResponse["end"];
+
+    next();
+  };
+}
@@ -23,11 +23,63 @@
  *
  * 4. Flush on shutdown:
  *    await metrics.destroy();
+ *
+ * 5. Record application metrics:
+ *    metrics.counter('jobs_processed', { queue: 'emails' }).add();
+ *    metrics.gauge('queue_depth', {}, () => queue.length);
+ *
+ * 6. Or let Prometheus scrape them:
+ *    http.createServer(metrics.prometheusHandler()).listen(9464);
  */
 
+import { createInstruments, type InstrumentPayload } from "./instruments";
+import { createPathNormalizer, type PathOptions } from "./paths";
+import {
+  createPrometheusHandler,
+  createRequestCollector,
+  type PrometheusHandlerOptions,
+  type PrometheusOptions,
+} from "./prometheus";
+import { Backoff, type RetryOptions } from "./retry";
+import { registerShutdownTarget } from "./shutdown";
+import { DiskSpool, type SpoolOptions } from "./spool";
+import { HttpTransport, type Transport } from "./transports";
+
 export interface MetricsConfig {
-  token: string;
+  /**
+   * Project token, required unless a custom `transport` is supplied
+   */
+  token?: string;
   endpoint?: string;
+  /**
+   * Custom transport for metric batches. Replaces the HTTP transport built
+   * from `token`/`endpoint`.
+   */
+  transport?: Transport<MetricBatch>;
+  /**
+   * Backoff between failed flushes and attempts before buckets are dropped
+   */
+  retry?: RetryOptions;
+  /**
+   * Write batches that could not be delivered to disk and replay them on
+   * the next start
+   */
+  spool?: SpoolOptions;
+  /**
+   * Histogram buckets and metric name prefix for `renderPrometheus()`
+   */
+  prometheus?: PrometheusOptions;
+  /**
+   * Upper bounds in ms of the latency histogram kept per bucket
+   * (default: 5ms to 10s). Sent with each bucket so percentiles can be
+   * computed server-side.
+   */
+  histogramBuckets?: number[];
+  /**
+   * Path normalization and the limit on distinct paths. IDs in paths are
+   * replaced by placeholders so "/users/123" is recorded as "/users/:id".
+   */
+  paths?: PathOptions;
   flushInterval?: number; // ms, default 60000 (1 minute)
   disabled?: boolean;
 }
@@ -48,6 +100,38 @@ interface MetricBucket {
   totalDurationMs: number;
   minDurationMs: number | null;
   maxDurationMs: number | null;
+  // Count per histogram bound (not cumulative); the last entry is overflow
+  durationCounts: number[];
+  totalBytesIn: number;
+  totalBytesOut: number;
+  status2xx: number;
+  status3xx: number;
+  status4xx: number;
+  status5xx: number;
+}
+
+/**
+ * Request latency distribution. `counts[i]` is the number of requests that
+ * took at most `bounds[i]` ms (and more than the previous bound); the extra
+ * last count holds requests slower than every bound.
+ */
+export interface DurationHistogram {
+  bounds: number[];
+  counts: number[];
+}
+
+/**
+ * Aggregated metrics for one minute, path and method as sent to the server
+ */
+export interface MetricPayload {
+  timestamp: string;
+  path?: string;
+  method?: string;
+  requestCount: number;
+  totalDurationMs: number;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  durationHistogram: DurationHistogram;
   totalBytesIn: number;
   totalBytesOut: number;
   status2xx: number;
@@ -56,6 +140,48 @@ interface MetricBucket {
   status5xx: number;
 }
 
+export const DEFAULT_HISTOGRAM_BUCKETS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * Payload handed to the metrics transport on each flush
+ */
+export interface MetricBatch {
+  metrics: MetricPayload[];
+  /**
+   * Counters, gauges and histograms, present when any were recorded
+   */
+  instruments?: InstrumentPayload[];
+  /**
+   * Requests recorded under the "__other__" path since the last batch,
+   * present when any were collapsed
+   */
+  collapsedRequests?: number;
+}
+
+/**
+ * Transform a bucket to the API format
+ */
+function toPayload(bucket: MetricBucket, bounds: number[]): MetricPayload {
+  return {
+    timestamp: bucket.timestamp.toISOString(),
+    path: bucket.path ?? undefined,
+    method: bucket.method ?? undefined,
+    requestCount: bucket.requestCount,
+    totalDurationMs: bucket.totalDurationMs,
+    minDurationMs: bucket.minDurationMs ?? undefined,
+    maxDurationMs: bucket.maxDurationMs ?? undefined,
+    durationHistogram: { bounds, counts: [...bucket.durationCounts] },
+    totalBytesIn: bucket.totalBytesIn,
+    totalBytesOut: bucket.totalBytesOut,
+    status2xx: bucket.status2xx,
+    status3xx: bucket.status3xx,
+    status4xx: bucket.status4xx,
+    status5xx: bucket.status5xx,
+  };
+}
+
 /**
  * Round a date to the start of its minute
  */
@@ -97,10 +223,41 @@ export const CreateMetrics = (config: MetricsConfig) => {
     flushInterval = 60000,
     disabled = false,
   } = config;
+  const transport: Transport<MetricBatch> | undefined =
+    config.transport ??
+    (token ? new HttpTransport({ endpoint, token }) : undefined);
 
   // Metric buckets keyed by minute timestamp
   const buckets: Map<string, MetricBucket> = new Map();
   let flushTimer: ReturnType<typeof setInterval> | null = null;
+  const backoff = new Backoff(config.retry);
+  const spool = config.spool
+    ? new DiskSpool<MetricBatch>("metrics", config.spool)
+    : undefined;
+  const histogramBounds = [
+    ...(config.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS),
+  ].sort((a, b) => a - b);
+  // Without a transport nothing drains the buckets, so completed minutes
+  // are dropped instead of piling up for the life of the process
+  const pushing = !disabled && transport !== undefined;
+  const instruments = createInstruments(histogramBounds, {
+    dropCompleted: !pushing,
+  });
+  // Cumulative totals for pull mode, kept apart from the pushed buckets
+  const collector = createRequestCollector(config.prometheus);
+  const paths = createPathNormalizer(config.paths);
+  // Collapsed requests already reported in a batch
+  let reportedCollapsed = 0;
+
+  /**
+   * Remove buckets from before the current minute
+   */
+  const dropCompletedBuckets = (): void => {
+    const currentTimeKey = roundToMinute(new Date()).toISOString();
+    for (const key of buckets.keys()) {
+      if (!key.startsWith(currentTimeKey)) buckets.delete(key);
+    }
+  };
 
   /**
    * Get or create a bucket for the given timestamp, path, and method
@@ -114,6 +271,7 @@ export const CreateMetrics = (config: MetricsConfig) => {
     let bucket = buckets.get(key);
 
     if (!bucket) {
+      if (!pushing) dropCompletedBuckets();
       bucket = {
         timestamp: roundToMinute(timestamp),
         path,
@@ -122,6 +280,7 @@ export const CreateMetrics = (config: MetricsConfig) => {
         totalDurationMs: 0,
         minDurationMs: null,
         maxDurationMs: null,
+        durationCounts: new Array(histogramBounds.length + 1).fill(0),
         totalBytesIn: 0,
         totalBytesOut: 0,
         status2xx: 0,
@@ -143,7 +302,7 @@ export const CreateMetrics = (config: MetricsConfig) => {
     durationMs: number,
     options: RequestEndOptions = {},
   ): void => {
-    const path = options.path ?? null;
+    const path = options.path ? paths.normalize(options.path) : null;
     const method = options.method?.toUpperCase() ?? null;
     const bucket = getOrCreateBucket(startTime, path, method);
 
@@ -156,6 +315,8 @@ export const CreateMetrics = (config: MetricsConfig) => {
     if (bucket.maxDurationMs === null || durationMs > bucket.maxDurationMs) {
       bucket.maxDurationMs = durationMs;
     }
+    const index = histogramBounds.findIndex((bound) => durationMs <= bound);
+    bucket.durationCounts[index === -1 ? histogramBounds.length : index]++;
 
     if (options.bytesIn) {
       bucket.totalBytesIn += options.bytesIn;
@@ -164,20 +325,91 @@ export const CreateMetrics = (config: MetricsConfig) => {
       bucket.totalBytesOut += options.bytesOut;
     }
 
-    if (options.statusCode) {
-      const category = getStatusCategory(options.statusCode);
-      if (category === "2xx") bucket.status2xx++;
-      else if (category === "3xx") bucket.status3xx++;
-      else if (category === "4xx") bucket.status4xx++;
-      else if (category === "5xx") bucket.status5xx++;
+    const category = options.statusCode
+      ? getStatusCategory(options.statusCode)
+      : null;
+    if (category === "2xx") bucket.status2xx++;
+    else if (category === "3xx") bucket.status3xx++;
+    else if (category === "4xx") bucket.status4xx++;
+    else if (category === "5xx") bucket.status5xx++;
+
+    collector.record({
+      method,
+      path,
+      durationMs,
+      statusClass: category,
+      bytesIn: options.bytesIn,
+      bytesOut: options.bytesOut,
+    });
+  };
+
+  /**
+   * Put an unsent bucket back, merging with any data recorded since
+   */
+  const restoreBucket = (bucket: MetricBucket): void => {
+    const key = getBucketKey(bucket.timestamp, bucket.path, bucket.method);
+    const existing = buckets.get(key);
+    if (!existing) {
+      buckets.set(key, bucket);
+      return;
+    }
+
+    existing.requestCount += bucket.requestCount;
+    existing.totalDurationMs += bucket.totalDurationMs;
+    existing.totalBytesIn += bucket.totalBytesIn;
+    existing.totalBytesOut += bucket.totalBytesOut;
+    existing.status2xx += bucket.status2xx;
+    existing.status3xx += bucket.status3xx;
+    existing.status4xx += bucket.status4xx;
+    existing.status5xx += bucket.status5xx;
+    bucket.durationCounts.forEach((count, i) => {
+      existing.durationCounts[i] += count;
+    });
+    if (
+      bucket.minDurationMs !== null &&
+      (existing.minDurationMs === null ||
+        bucket.minDurationMs < existing.minDurationMs)
+    ) {
+      existing.minDurationMs = bucket.minDurationMs;
+    }
+    if (
+      bucket.maxDurationMs !== null &&
+      (existing.maxDurationMs === null ||
+        bucket.maxDurationMs > existing.maxDurationMs)
+    ) {
+      existing.maxDurationMs = bucket.maxDurationMs;
+    }
+  };
+
+  const toBatch = (
+    requestBuckets: MetricBucket[],
+    instrumentBuckets: ReturnType<typeof instruments.drain>,
+    collapsed: number,
+  ): MetricBatch => {
+    const batch: MetricBatch = {
+      metrics: requestBuckets.map((bucket) =>
+        toPayload(bucket, histogramBounds),
+      ),
+    };
+    if (instrumentBuckets.length > 0) {
+      batch.instruments = instrumentBuckets.map(instruments.toPayload);
     }
+    if (collapsed > 0) batch.collapsedRequests = collapsed;
+    return batch;
   };
 
   /**
    * Flush all collected metrics to the server
    */
   const flush = async (): Promise<void> => {
-    if (disabled || buckets.size === 0) return;
+    if (!pushing || !transport) {
+      dropCompletedBuckets();
+      instruments.drain();
+      return;
+    }
+    instruments.observe();
+    if (buckets.size === 0 && instruments.size === 0) return;
+    if (!backoff.canAttempt()) return;
 
     // Get all buckets except the current minute (still collecting)
     const now = new Date();
@@ -194,94 +426,47 @@ export const CreateMetrics = (config: MetricsConfig) => {
       }
     }
 
-    if (bucketsToSend.length === 0) return;
+    const instrumentsToSend = instruments.drain();
+    if (bucketsToSend.length === 0 && instrumentsToSend.length === 0) return;
 
     // Remove sent buckets from map
     for (const key of keysToDelete) {
       buckets.delete(key);
     }
 
-    // Transform to API format
-    const metrics = bucketsToSend.map((b) => ({
-      timestamp: b.timestamp.toISOString(),
-      path: b.path ?? undefined,
-      method: b.method ?? undefined,
-      requestCount: b.requestCount,
-      totalDurationMs: b.totalDurationMs,
-      minDurationMs: b.minDurationMs ?? undefined,
-      maxDurationMs: b.maxDurationMs ?? undefined,
-      totalBytesIn: b.totalBytesIn,
-      totalBytesOut: b.totalBytesOut,
-      status2xx: b.status2xx,
-      status3xx: b.status3xx,
-      status4xx: b.status4xx,
-      status5xx: b.status5xx,
-    }));
-
+    const collapsed = paths.collapsedCount - reportedCollapsed;
+    const batch = toBatch(bucketsToSend, instrumentsToSend, collapsed);
     try {
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-loggy-token": token,
-        },
-        body: JSON.stringify({ metrics }),
-      });
-
-      if (!response.ok) {
-        // Re-add failed buckets for retry
-        for (const bucket of bucketsToSend) {
-          const key = getBucketKey(
-            bucket.timestamp,
-            bucket.path,
-            bucket.method,
-          );
-          const existing = buckets.get(key);
-          if (existing) {
-            // Merge with any new data
-            existing.requestCount += bucket.requestCount;
-            existing.totalDurationMs += bucket.totalDurationMs;
-            existing.totalBytesIn += bucket.totalBytesIn;
-            existing.totalBytesOut += bucket.totalBytesOut;
-            existing.status2xx += bucket.status2xx;
-            existing.status3xx += bucket.status3xx;
-            existing.status4xx += bucket.status4xx;
-            existing.status5xx += bucket.status5xx;
-            if (
-              bucket.minDurationMs !== null &&
-              (existing.minDurationMs === null ||
-                bucket.minDurationMs < existing.minDurationMs)
-            ) {
-              existing.minDurationMs = bucket.minDurationMs;
-            }
-            if (
-              bucket.maxDurationMs !== null &&
-              (existing.maxDurationMs === null ||
-                bucket.maxDurationMs > existing.maxDurationMs)
-            ) {
-              existing.maxDurationMs = bucket.maxDurationMs;
-            }
-          } else {
-            buckets.set(key, bucket);
-          }
-        }
-      }
+      await transport.send(batch);
+      backoff.onSuccess();
+      reportedCollapsed += collapsed;
     } catch {
-      // Re-add failed buckets for retry
-      for (const bucket of bucketsToSend) {
-        const key = getBucketKey(bucket.timestamp, bucket.path, bucket.method);
-        if (!buckets.has(key)) {
-          buckets.set(key, bucket);
+      // Re-add failed buckets for retry until attempts run out
+      if (backoff.onFailure()) {
+        for (const bucket of bucketsToSend) {
+          restoreBucket(bucket);
         }
+        instrumentsToSend.forEach(instruments.restore);
+      } else {
+        spool?.write(batch);
+        reportedCollapsed += collapsed;
       }
     }
   };
 
   // Start flush timer
-  if (!disabled) {
+  if (pushing) {
     flushTimer = setInterval(flush, flushInterval);
+    // Must not keep the process alive on its own
+    flushTimer.unref?.();
   }
 
+  // Deliver batches spooled by a previous process
+  const replaying =
+    !disabled && transport && spool
+      ? spool.replay((batch) => transport.send(batch)).catch(() => {})
+      : Promise.resolve();
+
   /**
    * Start tracking a request. Returns a function to call when the request ends.
    *
@@ -372,56 +557,90 @@ export const CreateMetrics = (config: MetricsConfig) => {
     return count;
   };
 
+  /**
+   * Number of requests recorded under "__other__" because the distinct
+   * path limit was reached
+   */
+  const getCollapsedCount = (): number => paths.collapsedCount;
+
   /**
    * Flush and stop the metrics tracker.
    * Call this on application shutdown.
    */
   const destroy = async (): Promise<void> => {
+    unregister();
     if (flushTimer) {
       clearInterval(flushTimer);
       flushTimer = null;
     }
     // Force flush all buckets including current
+    instruments.observe();
     const allBuckets = Array.from(buckets.values());
+    const allInstruments = instruments.drain(true);
     buckets.clear();
 
-    if (allBuckets.length === 0 || disabled) return;
-
-    const metrics = allBuckets.map((b) => ({
-      timestamp: b.timestamp.toISOString(),
-      requestCount: b.requestCount,
-      totalDurationMs: b.totalDurationMs,
-      minDurationMs: b.minDurationMs ?? undefined,
-      maxDurationMs: b.maxDurationMs ?? undefined,
-      totalBytesIn: b.totalBytesIn,
-      totalBytesOut: b.totalBytesOut,
-      status2xx: b.status2xx,
-      status3xx: b.status3xx,
-      status4xx: b.status4xx,
-      status5xx: b.status5xx,
-    }));
-
-    try {
-      await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-loggy-token": token,
-        },
-        body: JSON.stringify({ metrics }),
-      });
-    } catch {
-      // Ignore errors on shutdown
+    if (
+      (allBuckets.length > 0 || allInstruments.length > 0) &&
+      !disabled &&
+      transport
+    ) {
+      const batch = toBatch(
+        allBuckets,
+        allInstruments,
+        paths.collapsedCount - reportedCollapsed,
+      );
+      try {
+        await transport.send(batch);
+      } catch {
+        // Keep the batch for the next start if spooling, otherwise drop it
+        spool?.write(batch);
+      }
     }
+    await replaying;
+    spool?.close();
+    await transport?.close?.();
   };
 
+  /**
+   * Render cumulative request metrics in the Prometheus text format
+   */
+  const renderPrometheus = (): string => collector.render();
+
+  /**
+   * Request handler serving `renderPrometheus()` at /metrics, usable with
+   * `http.createServer()` or as Express middleware
+   *
+   * @example
+   * app.get("/metrics", metrics.prometheusHandler());
+   */
+  const prometheusHandler = (options?: PrometheusHandlerOptions) =>
+    createPrometheusHandler(renderPrometheus, options);
+
+  const unregister = registerShutdownTarget({ destroy });
+
   return {
     startRequest,
     trackRequest,
     record,
+    /**
+     * Counter for values that only go up, e.g. jobs processed
+     */
+    counter: instruments.counter,
+    /**
+     * Gauge for a current value, e.g. queue depth. With a callback it is read
+     * on every flush instead of being set.
+     */
+    gauge: instruments.gauge,
+    /**
+     * Histogram for a distribution of values, e.g. job duration in ms
+     */
+    histogram: instruments.histogram,
     flush,
     destroy,
     getPendingCount,
+    getCollapsedCount,
+    renderPrometheus,
+    prometheusHandler,
   };
 };
 
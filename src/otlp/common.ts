@@ -0,0 +1,92 @@
+/**
+ * OTLP/JSON encoding helpers shared by the trace and log exporters
+ * https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+
+import { context } from "../tracing/active-context";
+
+export interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string;
+  doubleValue?: number;
+  arrayValue?: { values: OtlpAnyValue[] };
+  kvlistValue?: { values: OtlpKeyValue[] };
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpResource {
+  attributes: OtlpKeyValue[];
+}
+
+export interface OtlpScope {
+  name: string;
+}
+
+export const LOGGY_SCOPE: OtlpScope = { name: "@loggydev/loggy-node" };
+
+/**
+ * Encode a JavaScript value as an OTLP AnyValue
+ */
+export function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    // int64 values are encoded as decimal strings
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  if (value instanceof Date) return { stringValue: value.toISOString() };
+  if (typeof value === "object" && value !== null) {
+    return { kvlistValue: { values: toKeyValues(value) } };
+  }
+  return { stringValue: String(value) };
+}
+
+/**
+ * Encode an object's entries as OTLP attributes, skipping undefined values
+ */
+export function toKeyValues(attributes: object = {}): OtlpKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * Convert an ISO timestamp to nanoseconds since the epoch, as a string
+ */
+export function toUnixNano(timestamp: string | undefined): string {
+  if (!timestamp) return "0";
+  return `${Date.parse(timestamp)}000000`;
+}
+
+/**
+ * POST an OTLP/JSON request, rejecting on a non-2xx response
+ */
+export async function postOtlp(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+): Promise<void> {
+  const response = await context.suppress(() =>
+    fetch(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `OTLP export to ${url} failed with HTTP ${response.status}`,
+    );
+  }
+}
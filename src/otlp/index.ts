@@ -0,0 +1,39 @@
+/**
+ * OpenTelemetry Protocol (OTLP/HTTP JSON) exporters
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   CreateLoggy,
+ *   CreateTracer,
+ *   OtlpLogExporter,
+ *   OtlpTraceExporter,
+ * } from '@loggydev/loggy-node';
+ *
+ * const tracer = CreateTracer({
+ *   serviceName: 'api-gateway',
+ *   transport: new OtlpTraceExporter({ url: 'http://tempo:4318/v1/traces' }),
+ * });
+ *
+ * const loggy = CreateLoggy({
+ *   identifier: 'api-gateway',
+ *   transport: new OtlpLogExporter({ serviceName: 'api-gateway' }),
+ * });
+ * ```
+ */
+
+export {
+  OtlpLogExporter,
+  toOtlpLogsRequest,
+  type ExportLogsServiceRequest,
+  type OtlpLogExporterOptions,
+  type OtlpLogRecord,
+} from "./logs";
+export {
+  OtlpTraceExporter,
+  toOtlpTraceRequest,
+  type ExportTraceServiceRequest,
+  type OtlpSpan,
+  type OtlpTraceExporterOptions,
+} from "./traces";
+export type { OtlpAnyValue, OtlpKeyValue } from "./common";
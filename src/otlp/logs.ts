@@ -0,0 +1,133 @@
+/**
+ * OTLP/HTTP JSON exporter for log entries
+ */
+
+import type { LogBatch, LogEntry } from "../index";
+import type { LogLevel } from "../levels";
+import type { Transport } from "../transports";
+import {
+  LOGGY_SCOPE,
+  postOtlp,
+  toAnyValue,
+  toKeyValues,
+  toUnixNano,
+  type OtlpAnyValue,
+  type OtlpKeyValue,
+  type OtlpResource,
+  type OtlpScope,
+} from "./common";
+
+export interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+}
+
+export interface ExportLogsServiceRequest {
+  resourceLogs: Array<{
+    resource: OtlpResource;
+    scopeLogs: Array<{ scope: OtlpScope; logRecords: OtlpLogRecord[] }>;
+  }>;
+}
+
+// Lowest severity number of each OTLP severity range
+const SEVERITY_NUMBERS: Record<LogLevel, number> = {
+  trace: 1,
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+function toLogRecord(entry: LogEntry): OtlpLogRecord {
+  const attributes = isPlainObject(entry.metadata)
+    ? toKeyValues(entry.metadata)
+    : entry.metadata === undefined
+      ? []
+      : [{ key: "metadata", value: toAnyValue(entry.metadata) }];
+  if (entry.tags && entry.tags.length > 0) {
+    attributes.push({ key: "tags", value: toAnyValue(entry.tags) });
+  }
+
+  const time = toUnixNano(entry.timestamp);
+  return {
+    timeUnixNano: time,
+    observedTimeUnixNano: time,
+    severityNumber: SEVERITY_NUMBERS[entry.level] ?? 0,
+    severityText: entry.level.toUpperCase(),
+    body: { stringValue: entry.message },
+    attributes,
+    traceId: entry.traceId,
+    spanId: entry.spanId,
+  };
+}
+
+/**
+ * Convert log entries to an OTLP ExportLogsServiceRequest
+ */
+export function toOtlpLogsRequest(
+  logs: LogEntry[],
+  resourceAttributes: Record<string, unknown> = {},
+): ExportLogsServiceRequest {
+  return {
+    resourceLogs: [
+      {
+        resource: { attributes: toKeyValues(resourceAttributes) },
+        scopeLogs: [{ scope: LOGGY_SCOPE, logRecords: logs.map(toLogRecord) }],
+      },
+    ],
+  };
+}
+
+export interface OtlpLogExporterOptions {
+  /**
+   * Collector logs endpoint (default: http://localhost:4318/v1/logs)
+   */
+  url?: string;
+  headers?: Record<string, string>;
+  /**
+   * Reported as the `service.name` resource attribute
+   */
+  serviceName?: string;
+  /**
+   * Additional resource attributes, e.g. `deployment.environment`
+   */
+  resourceAttributes?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Transport that sends log batches to an OTLP/HTTP collector as JSON
+ */
+export class OtlpLogExporter implements Transport<LogBatch> {
+  private url: string;
+  private headers: Record<string, string>;
+  private resourceAttributes: Record<string, unknown>;
+
+  constructor(options: OtlpLogExporterOptions = {}) {
+    this.url = options.url ?? "http://localhost:4318/v1/logs";
+    this.headers = options.headers ?? {};
+    this.resourceAttributes = {
+      "service.name": options.serviceName,
+      ...options.resourceAttributes,
+    };
+  }
+
+  async send(batch: LogBatch): Promise<void> {
+    await postOtlp(
+      this.url,
+      this.headers,
+      toOtlpLogsRequest(batch.logs, this.resourceAttributes),
+    );
+  }
+}
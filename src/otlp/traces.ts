@@ -0,0 +1,144 @@
+/**
+ * OTLP/HTTP JSON exporter for spans
+ */
+
+import type {
+  SpanBatch,
+  SpanData,
+  SpanKind,
+  SpanStatus,
+} from "../tracing/types";
+import type { Transport } from "../transports";
+import {
+  LOGGY_SCOPE,
+  postOtlp,
+  toKeyValues,
+  toUnixNano,
+  type OtlpKeyValue,
+  type OtlpResource,
+  type OtlpScope,
+} from "./common";
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{
+    timeUnixNano: string;
+    name: string;
+    attributes: OtlpKeyValue[];
+  }>;
+  status: { code: number; message?: string };
+}
+
+export interface ExportTraceServiceRequest {
+  resourceSpans: Array<{
+    resource: OtlpResource;
+    scopeSpans: Array<{ scope: OtlpScope; spans: OtlpSpan[] }>;
+  }>;
+}
+
+const SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODES: Record<SpanStatus, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+function toOtlpSpan(span: SpanData): OtlpSpan {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId || undefined,
+    traceState: span.traceState,
+    name: span.operationName,
+    kind: SPAN_KINDS[span.spanKind] ?? 0,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    attributes: toKeyValues(span.attributes),
+    events: (span.events ?? []).map((event) => ({
+      timeUnixNano: toUnixNano(event.timestamp),
+      name: event.name,
+      attributes: toKeyValues(event.attributes),
+    })),
+    status: {
+      code: STATUS_CODES[span.status] ?? 0,
+      message: span.statusMessage,
+    },
+  };
+}
+
+/**
+ * Convert spans to an OTLP ExportTraceServiceRequest, grouping them by
+ * resource (one per service)
+ */
+export function toOtlpTraceRequest(
+  spans: SpanData[],
+): ExportTraceServiceRequest {
+  const byResource = new Map<
+    string,
+    { resource: OtlpResource; spans: OtlpSpan[] }
+  >();
+
+  for (const span of spans) {
+    const resourceAttributes = span.resourceAttributes ?? {
+      "service.name": span.serviceName,
+    };
+    const key = JSON.stringify(resourceAttributes);
+    let group = byResource.get(key);
+    if (!group) {
+      group = {
+        resource: { attributes: toKeyValues(resourceAttributes) },
+        spans: [],
+      };
+      byResource.set(key, group);
+    }
+    group.spans.push(toOtlpSpan(span));
+  }
+
+  return {
+    resourceSpans: Array.from(byResource.values(), (group) => ({
+      resource: group.resource,
+      scopeSpans: [{ scope: LOGGY_SCOPE, spans: group.spans }],
+    })),
+  };
+}
+
+export interface OtlpTraceExporterOptions {
+  /**
+   * Collector traces endpoint (default: http://localhost:4318/v1/traces)
+   */
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Transport that sends span batches to an OTLP/HTTP collector as JSON, e.g.
+ * an OpenTelemetry Collector, Jaeger or Tempo
+ */
+export class OtlpTraceExporter implements Transport<SpanBatch> {
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(options: OtlpTraceExporterOptions = {}) {
+    this.url = options.url ?? "http://localhost:4318/v1/traces";
+    this.headers = options.headers ?? {};
+  }
+
+  async send(batch: SpanBatch): Promise<void> {
+    await postOtlp(this.url, this.headers, toOtlpTraceRequest(batch.spans));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Path normalization for request metrics, keeping the number of distinct
+ * paths (and so buckets and Prometheus series) bounded
+ */
+
+export interface PathOptions {
+  /**
+   * Route patterns such as "/users/:id" or "/files/*"; matching paths are
+   * recorded as the pattern
+   */
+  routes?: string[];
+  /**
+   * Replace numeric, UUID and long hex segments with ":id", ":uuid" and
+   * ":hex" (default: true)
+   */
+  replaceIds?: boolean;
+  /**
+   * Distinct paths recorded before further paths are collapsed into
+   * "__other__" (default: 500)
+   */
+  maxPaths?: number;
+}
+
+// Path recorded for paths beyond the distinct path limit
+export const OTHER_PATH = "__other__";
+
+const NUMERIC_SEGMENT = /^\d+$/;
+const UUID_SEGMENT =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HEX_SEGMENT = /^[0-9a-f]{16,}$/i;
+
+/**
+ * Compile a route pattern to a regular expression; ":name" matches one
+ * segment and "*" matches the rest of the path
+ */
+function compileRoute(route: string): RegExp {
+  const source = route
+    .split("/")
+    .map((segment) => {
+      if (segment === "*") return ".*";
+      if (segment.startsWith(":")) return "[^/]+";
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return new RegExp(`^${source}/?$`);
+}
+
+function replaceSegment(segment: string): string {
+  if (NUMERIC_SEGMENT.test(segment)) return ":id";
+  if (UUID_SEGMENT.test(segment)) return ":uuid";
+  if (HEX_SEGMENT.test(segment)) return ":hex";
+  return segment;
+}
+
+/**
+ * Create the path normalizer used by CreateMetrics
+ */
+export const createPathNormalizer = (options: PathOptions = {}) => {
+  const { replaceIds = true, maxPaths = 500 } = options;
+  const routes = (options.routes ?? []).map((route) => ({
+    route,
+    pattern: compileRoute(route),
+  }));
+  const seen = new Set<string>();
+  let collapsed = 0;
+
+  /**
+   * Normalize a request path, or return "__other__" once `maxPaths`
+   * distinct paths were seen
+   */
+  const normalize = (path: string): string => {
+    const pathname = path.split(/[?#]/)[0];
+    const match = routes.find(({ pattern }) => pattern.test(pathname));
+    let normalized = pathname;
+    if (match) {
+      normalized = match.route;
+    } else if (replaceIds) {
+      normalized = pathname.split("/").map(replaceSegment).join("/");
+    }
+
+    if (seen.has(normalized)) return normalized;
+    if (seen.size >= maxPaths) {
+      collapsed++;
+      return OTHER_PATH;
+    }
+    seen.add(normalized);
+    return normalized;
+  };
+
+  return {
+    normalize,
+    /**
+     * Number of requests recorded as "__other__" so far
+     */
+    get collapsedCount() {
+      return collapsed;
+    },
+  };
+};
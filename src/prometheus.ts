@@ -0,0 +1,233 @@
+/**
+ * Prometheus text exposition for request metrics
+ *
+ * Minute buckets are deleted once they are pushed, so pull mode keeps its
+ * own cumulative counters per method and path, as Prometheus expects.
+ * https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+export interface PrometheusOptions {
+  /**
+   * Upper bounds of the request duration histogram buckets in seconds
+   * (default: 5ms to 10s)
+   */
+  buckets?: number[];
+  /**
+   * Prefix for every metric name, e.g. "myapp_" (default: none)
+   */
+  prefix?: string;
+}
+
+export interface PrometheusHandlerOptions {
+  /**
+   * Path to serve the metrics on (default: "/metrics")
+   */
+  path?: string;
+}
+
+export const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+type StatusClass = "2xx" | "3xx" | "4xx" | "5xx";
+
+interface RequestSeries {
+  method: string | null;
+  path: string | null;
+  requests: number;
+  statuses: Record<StatusClass, number>;
+  bytesIn: number;
+  bytesOut: number;
+  // Count per bucket (not cumulative); the last entry is +Inf
+  durationCounts: number[];
+  durationSum: number;
+}
+
+export interface RequestSample {
+  method: string | null;
+  path: string | null;
+  durationMs: number;
+  statusClass: StatusClass | null;
+  bytesIn?: number;
+  bytesOut?: number;
+}
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Format a label set, skipping labels without a value
+ */
+export function formatLabels(
+  labels: Record<string, string | null | undefined>,
+): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}="${escapeLabel(value!)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Format a sample value the way Prometheus clients do
+ */
+export function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  if (Number.isNaN(value)) return "NaN";
+  return String(value);
+}
+
+/**
+ * Cumulative request counters and duration histograms per method and path
+ */
+export const createRequestCollector = (options: PrometheusOptions = {}) => {
+  const prefix = options.prefix ?? "";
+  const buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort(
+    (a, b) => a - b,
+  );
+  const series = new Map<string, RequestSeries>();
+
+  const record = (sample: RequestSample): void => {
+    const key = `${sample.method ?? ""}|${sample.path ?? ""}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        method: sample.method,
+        path: sample.path,
+        requests: 0,
+        statuses: { "2xx": 0, "3xx": 0, "4xx": 0, "5xx": 0 },
+        bytesIn: 0,
+        bytesOut: 0,
+        durationCounts: new Array(buckets.length + 1).fill(0),
+        durationSum: 0,
+      };
+      series.set(key, entry);
+    }
+
+    const seconds = sample.durationMs / 1000;
+    entry.requests++;
+    if (sample.statusClass) entry.statuses[sample.statusClass]++;
+    entry.bytesIn += sample.bytesIn ?? 0;
+    entry.bytesOut += sample.bytesOut ?? 0;
+    entry.durationSum += seconds;
+
+    const index = buckets.findIndex((bound) => seconds <= bound);
+    entry.durationCounts[index === -1 ? buckets.length : index]++;
+  };
+
+  /**
+   * Render all series in the Prometheus text exposition format
+   */
+  const render = (): string => {
+    const all = Array.from(series.values());
+    const lines: string[] = [];
+    const metric = (
+      name: string,
+      type: string,
+      help: string,
+      samples: (entry: RequestSeries) => string[],
+    ) => {
+      lines.push(`# HELP ${prefix}${name} ${help}`);
+      lines.push(`# TYPE ${prefix}${name} ${type}`);
+      for (const entry of all) lines.push(...samples(entry));
+    };
+    const labelsOf = (entry: RequestSeries, extra = {}) =>
+      formatLabels({ method: entry.method, path: entry.path, ...extra });
+
+    metric("http_requests_total", "counter", "Total HTTP requests.", (e) => [
+      `${prefix}http_requests_total${labelsOf(e)} ${e.requests}`,
+    ]);
+    metric(
+      "http_responses_total",
+      "counter",
+      "HTTP responses by status class.",
+      (e) =>
+        (Object.keys(e.statuses) as StatusClass[])
+          .filter((statusClass) => e.statuses[statusClass] > 0)
+          .map((statusClass) => {
+            const labels = labelsOf(e, { status_class: statusClass });
+            return `${prefix}http_responses_total${labels} ${e.statuses[statusClass]}`;
+          }),
+    );
+    metric(
+      "http_request_bytes_total",
+      "counter",
+      "Total bytes received in HTTP requests.",
+      (e) => [`${prefix}http_request_bytes_total${labelsOf(e)} ${e.bytesIn}`],
+    );
+    metric(
+      "http_response_bytes_total",
+      "counter",
+      "Total bytes sent in HTTP responses.",
+      (e) => [`${prefix}http_response_bytes_total${labelsOf(e)} ${e.bytesOut}`],
+    );
+    metric(
+      "http_request_duration_seconds",
+      "histogram",
+      "HTTP request duration in seconds.",
+      (e) => {
+        const name = `${prefix}http_request_duration_seconds`;
+        let cumulative = 0;
+        const bucketLines = [...buckets, Infinity].map((bound, i) => {
+          cumulative += e.durationCounts[i];
+          const le = formatValue(bound);
+          return `${name}_bucket${labelsOf(e, { le })} ${cumulative}`;
+        });
+        return [
+          ...bucketLines,
+          `${name}_sum${labelsOf(e)} ${formatValue(e.durationSum)}`,
+          `${name}_count${labelsOf(e)} ${e.requests}`,
+        ];
+      },
+    );
+
+    return `${lines.join("\n")}\n`;
+  };
+
+  return { record, render };
+};
+
+/**
+ * Build a request handler serving `render()` at the configured path. Works
+ * as an `http.RequestListener` and as Express/Connect middleware (other
+ * paths are passed to `next`, or answered with 404 without it).
+ */
+export const createPrometheusHandler = (
+  render: () => string,
+  options: PrometheusHandlerOptions = {},
+) => {
+  const path = options.path ?? "/metrics";
+
+  return (
+    req: IncomingMessage & { originalUrl?: string },
+    res: ServerResponse,
+    next?: () => void,
+  ): void => {
+    const url = req.originalUrl ?? req.url ?? "/";
+    const pathname = url.split("?")[0];
+
+    if (pathname !== path || (req.method !== "GET" && req.method !== "HEAD")) {
+      if (next) return next();
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    const body = render();
+    res.statusCode = 200;
+    res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+    res.end(req.method === "HEAD" ? undefined : body);
+  };
+};
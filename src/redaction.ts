@@ -0,0 +1,253 @@
+/**
+ * Redaction of sensitive values in log metadata, tags and span attributes
+ *
+ * Key paths are dot-separated and matched case-insensitively from the root:
+ * `*` matches exactly one key and `**` matches any number of keys, so
+ * `*.password` covers `user.password` and `**.token` covers a token at any
+ * depth. Value patterns are matched against every string value.
+ *
+ * Class instances such as request objects or DTOs are copied to plain
+ * objects of their own enumerable properties (Errors also keep their name,
+ * message and stack). Dates, regular expressions, maps, sets and binary
+ * data are passed through unchanged.
+ */
+
+import { createHash } from "node:crypto";
+
+export type RedactionStrategy = "mask" | "hash" | "remove";
+
+/**
+ * Built-in value patterns
+ */
+export type RedactionPatternName = "creditCard" | "jwt";
+
+export interface RedactionOptions {
+  /**
+   * Key paths whose values are redacted, e.g. "*.password" or
+   * "headers.authorization"
+   */
+  paths?: string[];
+  /**
+   * Patterns matched against string values; the matching part is redacted
+   */
+  patterns?: Array<RegExp | RedactionPatternName>;
+  /**
+   * How redacted values are replaced (default: "mask")
+   */
+  strategy?: RedactionStrategy;
+  /**
+   * Replacement used by the "mask" strategy (default: "[REDACTED]")
+   */
+  mask?: string;
+}
+
+const BUILT_IN_PATTERNS: Record<RedactionPatternName, RegExp> = {
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  jwt: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+};
+
+/**
+ * Luhn checksum, used to avoid redacting arbitrary long numbers as cards
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check whether a key path matches a pattern split into segments
+ */
+function matchesPath(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) return path.length === 0;
+
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let i = 0; i <= path.length; i++) {
+      if (matchesPath(rest, path.slice(i))) return true;
+    }
+    return false;
+  }
+
+  if (path.length === 0) return false;
+  if (head !== "*" && head !== path[0].toLowerCase()) return false;
+  return matchesPath(rest, path.slice(1));
+}
+
+/**
+ * Objects whose data is not held in own enumerable properties, so copying
+ * their keys would lose it
+ */
+const isOpaque = (value: object): boolean =>
+  value instanceof Date ||
+  value instanceof RegExp ||
+  value instanceof Map ||
+  value instanceof Set ||
+  value instanceof Promise ||
+  value instanceof ArrayBuffer ||
+  ArrayBuffer.isView(value);
+
+/**
+ * Keys to walk for an object; Error keeps its non-enumerable fields
+ */
+const entriesOf = (value: object): Array<[string, unknown]> => {
+  const entries = Object.entries(value);
+  if (!(value instanceof Error)) return entries;
+  return [
+    ["name", value.name],
+    ["message", value.message],
+    ["stack", value.stack],
+    ...entries.filter(([key]) => !["name", "message", "stack"].includes(key)),
+  ];
+};
+
+// Marker for values removed by the "remove" strategy
+const REMOVED = Symbol("removed");
+
+export class Redactor {
+  private paths: string[][];
+  private patterns: Array<{ regex: RegExp; luhn: boolean }>;
+  private strategy: RedactionStrategy;
+  private mask: string;
+
+  constructor(options: RedactionOptions = {}) {
+    this.paths = (options.paths ?? []).map((path) =>
+      path.toLowerCase().split("."),
+    );
+    this.patterns = (options.patterns ?? []).map((pattern) => {
+      const regex =
+        typeof pattern === "string" ? BUILT_IN_PATTERNS[pattern] : pattern;
+      return {
+        // Global flag is needed to replace every occurrence
+        regex: regex.global
+          ? regex
+          : new RegExp(regex.source, `${regex.flags}g`),
+        luhn: pattern === "creditCard",
+      };
+    });
+    this.strategy = options.strategy ?? "mask";
+    this.mask = options.mask ?? "[REDACTED]";
+  }
+
+  /**
+   * Return a redacted copy of a value (objects, class instances and arrays
+   * are copied, the input is never modified)
+   */
+  redact<T>(value: T): T {
+    const result = this.redactValue(value, [], new WeakSet());
+    return (result === REMOVED ? undefined : result) as T;
+  }
+
+  /**
+   * Redact tags by value pattern; tags removed by the "remove" strategy are
+   * dropped
+   */
+  redactTags(tags: string[]): string[] {
+    const redacted: string[] = [];
+    for (const tag of tags) {
+      const result = this.redactString(tag);
+      if (result !== REMOVED) redacted.push(result);
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact flat attributes, treating each dotted key as a key path
+   */
+  redactAttributes<T extends Record<string, unknown>>(attributes: T): T {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      const result = this.redactValue(value, key.split("."), new WeakSet());
+      if (result !== REMOVED) redacted[key] = result;
+    }
+    return redacted as T;
+  }
+
+  private redactValue(
+    value: unknown,
+    path: string[],
+    seen: WeakSet<object>,
+  ): unknown {
+    if (
+      path.length > 0 &&
+      this.paths.some((pattern) => matchesPath(pattern, path))
+    ) {
+      return this.replace(value);
+    }
+
+    if (typeof value === "string") return this.redactString(value);
+
+    if (typeof value === "object" && value !== null && !isOpaque(value)) {
+      if (seen.has(value)) return "[Circular]";
+      seen.add(value);
+
+      if (Array.isArray(value)) {
+        const result: unknown[] = [];
+        value.forEach((item, index) => {
+          const redacted = this.redactValue(
+            item,
+            [...path, String(index)],
+            seen,
+          );
+          if (redacted !== REMOVED) result.push(redacted);
+        });
+        seen.delete(value);
+        return result;
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of entriesOf(value)) {
+        const redacted = this.redactValue(item, [...path, key], seen);
+        if (redacted !== REMOVED) result[key] = redacted;
+      }
+      seen.delete(value);
+      return result;
+    }
+
+    return value;
+  }
+
+  private redactString(value: string): string | typeof REMOVED {
+    if (this.strategy === "remove") {
+      const found = this.patterns.some(({ regex, luhn }) =>
+        (value.match(regex) ?? []).some((match) => !luhn || passesLuhn(match)),
+      );
+      return found ? REMOVED : value;
+    }
+
+    let result = value;
+    for (const { regex, luhn } of this.patterns) {
+      result = result.replace(regex, (match) => {
+        if (luhn && !passesLuhn(match)) return match;
+        return this.strategy === "hash" ? this.hash(match) : this.mask;
+      });
+    }
+    return result;
+  }
+
+  private replace(value: unknown): unknown {
+    switch (this.strategy) {
+      case "remove":
+        return REMOVED;
+      case "hash":
+        return this.hash(
+          typeof value === "string" ? value : (JSON.stringify(value) ?? ""),
+        );
+      default:
+        return this.mask;
+    }
+  }
+
+  private hash(value: string): string {
+    const digest = createHash("sha256").update(value).digest("hex");
+    return `sha256:${digest.slice(0, 16)}`;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Retry policy with exponential backoff and jitter for remote flushes
+ */
+
+export interface RetryOptions {
+  /**
+   * Attempts per batch before it is dropped (default: 5)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay after the first failure in ms (default: 1000)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the delay in ms (default: 60000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor the delay grows by after each failure (default: 2)
+   */
+  multiplier?: number;
+  /**
+   * Random spread applied to each delay, as a fraction of it (default: 0.2)
+   */
+  jitter?: number;
+}
+
+/**
+ * Tracks consecutive delivery failures and when the next attempt may run.
+ * Failures push the next attempt out exponentially; a success resets it.
+ */
+export class Backoff {
+  private maxAttempts: number;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private multiplier: number;
+  private jitter: number;
+  private failures = 0;
+  private nextAttemptAt = 0;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+    this.initialDelayMs = options.initialDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.multiplier = options.multiplier ?? 2;
+    this.jitter = Math.min(Math.max(options.jitter ?? 0.2, 0), 1);
+  }
+
+  /**
+   * Whether the backoff delay after the last failure has passed
+   */
+  canAttempt(now: number = Date.now()): boolean {
+    return now >= this.nextAttemptAt;
+  }
+
+  /**
+   * Record a failed attempt. Returns false once the batch has used up its
+   * attempts and should be dropped; the backoff is reset for the next batch.
+   */
+  onFailure(now: number = Date.now()): boolean {
+    this.failures++;
+
+    if (this.failures >= this.maxAttempts) {
+      this.onSuccess();
+      return false;
+    }
+
+    const base = Math.min(
+      this.maxDelayMs,
+      this.initialDelayMs * Math.pow(this.multiplier, this.failures - 1),
+    );
+    const spread = base * this.jitter * (Math.random() * 2 - 1);
+    this.nextAttemptAt = now + Math.max(0, Math.round(base + spread));
+    return true;
+  }
+
+  onSuccess(): void {
+    this.failures = 0;
+    this.nextAttemptAt = 0;
+  }
+
+  get attempts(): number {
+    return this.failures;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Graceful shutdown for every logger, tracer and metrics instance
+ *
+ * Instances register themselves when created and unregister when destroyed.
+ * `enableGracefulShutdown()` installs signal and `beforeExit` handlers that
+ * destroy every registered instance (flushing what they still buffer) within
+ * a deadline before letting the process exit.
+ */
+
+import { constants } from "node:os";
+
+export interface ShutdownTarget {
+  destroy(): Promise<void>;
+}
+
+export interface GracefulShutdownOptions {
+  /**
+   * Time in ms to wait for all instances to flush (default: 5000)
+   */
+  timeout?: number;
+  /**
+   * Signals that trigger a shutdown (default: ["SIGTERM", "SIGINT"])
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * Exit the process after a signal-triggered shutdown (default: true).
+   * The process is left running when other listeners handle the signal.
+   */
+  exit?: boolean;
+}
+
+const targets = new Set<ShutdownTarget>();
+
+let shuttingDown: Promise<boolean> | null = null;
+
+/**
+ * Track an instance until it is destroyed; returns a function that stops
+ * tracking it
+ */
+export function registerShutdownTarget(target: ShutdownTarget): () => void {
+  targets.add(target);
+  return () => {
+    targets.delete(target);
+  };
+}
+
+/**
+ * Destroy every registered instance. Resolves to false when the deadline
+ * passed before all of them finished.
+ */
+export function shutdown(timeout = 5000): Promise<boolean> {
+  if (shuttingDown) return shuttingDown;
+
+  const pending = Array.from(targets, (target) =>
+    target.destroy().catch(() => {}),
+  );
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout);
+    timer.unref?.();
+  });
+
+  shuttingDown = Promise.race([
+    Promise.all(pending).then(() => true),
+    deadline,
+  ]).finally(() => {
+    clearTimeout(timer);
+    shuttingDown = null;
+  });
+  return shuttingDown;
+}
+
+/**
+ * Flush all Loggy instances on SIGTERM, SIGINT and `beforeExit`.
+ * Returns a function that removes the handlers again.
+ */
+export function enableGracefulShutdown(
+  options: GracefulShutdownOptions = {},
+): () => void {
+  const {
+    timeout = 5000,
+    signals = ["SIGTERM", "SIGINT"],
+    exit = true,
+  } = options;
+  let signalled = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    // A second signal while flushing exits right away
+    if (signalled) {
+      process.exit(128 + (constants.signals[signal] ?? 0));
+    }
+    signalled = true;
+
+    shutdown(timeout).then(() => {
+      if (exit && process.listenerCount(signal) === 1) {
+        process.exit(128 + (constants.signals[signal] ?? 0));
+      }
+    });
+  };
+
+  // Destroyed instances unregister themselves, so the beforeExit that
+  // follows the flush finds nothing left to do
+  const onBeforeExit = () => {
+    if (targets.size > 0) shutdown(timeout);
+  };
+
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+  process.on("beforeExit", onBeforeExit);
+
+  return () => {
+    for (const signal of signals) {
+      process.removeListener(signal, onSignal);
+    }
+    process.removeListener("beforeExit", onBeforeExit);
+  };
+}
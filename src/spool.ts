@@ -0,0 +1,256 @@
+/**
+ * Disk-backed spool for batches that could not be delivered
+ *
+ * Undelivered batches are appended as JSON lines to segment files in a spool
+ * directory and replayed by the next process that starts with the same
+ * directory. Each write is fsynced; a torn line left by a crash is skipped on
+ * replay.
+ *
+ * Segment files are named `{name}-{timestamp}-{owner}-{seq}` with an `.open`
+ * suffix while a process is appending to them and `.seg` once sealed. The
+ * owner is `{pid}.{instance}`, where the instance id is random per spool. A
+ * segment is claimed for replay by renaming it to `.replay-{owner}`, so
+ * concurrent processes never replay the same batch twice. Open and claimed
+ * segments whose owner is gone are orphaned: they are picked up again on
+ * replay and may be deleted to stay under `maxBytes`. An owner with this
+ * process's pid but an unknown instance id was left by an earlier run (in
+ * containers every run is pid 1).
+ */
+
+import { randomBytes } from "node:crypto";
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from "node:fs";
+import { join } from "node:path";
+
+export interface SpoolOptions {
+  /**
+   * Directory for segment files, created if missing. Can be shared by
+   * loggers, tracers and metrics.
+   */
+  directory: string;
+  /**
+   * Cap on the total size of all segments in bytes; the oldest sealed
+   * segments are deleted to make room (default: 50 MB)
+   */
+  maxBytes?: number;
+  /**
+   * Size at which the current segment is sealed and a new one started
+   * (default: 1 MB)
+   */
+  maxSegmentBytes?: number;
+}
+
+interface OpenSegment {
+  path: string;
+  fd: number;
+  size: number;
+}
+
+const SEGMENT_PATTERN =
+  /^(.+)-(\d+)-(\d+\.[0-9a-f]{8})-(\d+)\.(open|seg|replay)(?:-(\d+\.[0-9a-f]{8}))?$/;
+
+// Owners of the spools created by this process
+const liveOwners = new Set<string>();
+
+/**
+ * Check whether the spool that owns a segment is still running
+ */
+function isOwnerAlive(owner: string): boolean {
+  if (liveOwners.has(owner)) return true;
+  const pid = Number(owner.split(".")[0]);
+  // This pid but none of this process's spools: left by an earlier run
+  if (pid === process.pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export class DiskSpool<T> {
+  private name: string;
+  private directory: string;
+  private maxBytes: number;
+  private maxSegmentBytes: number;
+  private owner = `${process.pid}.${randomBytes(4).toString("hex")}`;
+  private segment: OpenSegment | null = null;
+  private seq = 0;
+
+  constructor(name: string, options: SpoolOptions) {
+    this.name = name;
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+    this.maxSegmentBytes = options.maxSegmentBytes ?? 1024 * 1024;
+    liveOwners.add(this.owner);
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Append a batch to the spool. Returns false if it does not fit within
+   * `maxBytes` even after deleting older segments.
+   */
+  write(payload: T): boolean {
+    const line = Buffer.from(`${JSON.stringify(payload)}\n`, "utf8");
+    if (line.length > this.maxBytes) return false;
+
+    if (
+      this.segment &&
+      this.segment.size > 0 &&
+      this.segment.size + line.length > this.maxSegmentBytes
+    ) {
+      this.seal();
+    }
+
+    if (!this.makeRoom(line.length)) return false;
+
+    const segment = this.segment ?? this.openSegment();
+    writeSync(segment.fd, line);
+    fsyncSync(segment.fd);
+    segment.size += line.length;
+    return true;
+  }
+
+  /**
+   * Send every batch left behind by earlier processes. Segments are deleted
+   * once delivered; on the first failure the undelivered rest is kept for
+   * the next replay.
+   */
+  async replay(send: (payload: T) => Promise<void>): Promise<void> {
+    for (const file of this.listSegments()) {
+      if (!this.isReplayable(file)) continue;
+
+      const source = join(this.directory, file);
+      const base = file.slice(0, file.lastIndexOf("."));
+      const claimed = join(this.directory, `${base}.replay-${this.owner}`);
+      try {
+        renameSync(source, claimed);
+      } catch {
+        // Claimed by another process
+        continue;
+      }
+
+      const lines = readFileSync(claimed, "utf8").split("\n");
+      for (let i = 0; i < lines.length; i++) {
+        const payload = this.parseLine(lines[i]);
+        if (payload === undefined) continue;
+
+        try {
+          await send(payload);
+        } catch {
+          this.release(claimed, `${base}.seg`, lines.slice(i));
+          return;
+        }
+      }
+
+      unlinkSync(claimed);
+    }
+  }
+
+  /**
+   * Seal the current segment so it can be replayed
+   */
+  close(): void {
+    this.seal();
+  }
+
+  // Sealed segments and those whose open or replaying owner is gone
+  private isReplayable(file: string): boolean {
+    const match = SEGMENT_PATTERN.exec(file)!;
+    const state = match[5];
+    if (state === "open") return !isOwnerAlive(match[3]);
+    if (state === "replay") return !isOwnerAlive(match[6]);
+    return true;
+  }
+
+  private parseLine(line: string): T | undefined {
+    if (!line.trim()) return undefined;
+    try {
+      return JSON.parse(line) as T;
+    } catch {
+      // Torn write from a crash
+      return undefined;
+    }
+  }
+
+  // Give a claimed segment back with only the lines that were not delivered
+  private release(claimed: string, sealed: string, remaining: string[]) {
+    const temp = `${claimed}.tmp`;
+    writeFileSync(temp, remaining.join("\n"), "utf8");
+    renameSync(temp, claimed);
+    renameSync(claimed, join(this.directory, sealed));
+  }
+
+  private openSegment(): OpenSegment {
+    const file = `${this.name}-${Date.now()}-${this.owner}-${this.seq++}.open`;
+    const path = join(this.directory, file);
+    this.segment = { path, fd: openSync(path, "a"), size: 0 };
+    return this.segment;
+  }
+
+  private seal(): void {
+    if (!this.segment) return;
+    const { path, fd } = this.segment;
+    this.segment = null;
+    closeSync(fd);
+    if (existsSync(path)) {
+      renameSync(path, path.replace(/\.open$/, ".seg"));
+    }
+  }
+
+  // Delete the oldest sealed or orphaned segments until `bytes` more fit
+  // under maxBytes
+  private makeRoom(bytes: number): boolean {
+    const segments = this.listSegments().map((file) => {
+      const path = join(this.directory, file);
+      let size = 0;
+      try {
+        size = statSync(path).size;
+      } catch {
+        // Renamed or removed by another process
+      }
+      return { file, path, size };
+    });
+    let total = segments.reduce((sum, s) => sum + s.size, 0);
+
+    for (const segment of segments) {
+      if (total + bytes <= this.maxBytes) break;
+      if (!this.isReplayable(segment.file)) continue;
+      try {
+        unlinkSync(segment.path);
+        total -= segment.size;
+      } catch {
+        // Already removed by another process
+      }
+    }
+
+    return total + bytes <= this.maxBytes;
+  }
+
+  // Segments of this spool, oldest first
+  private listSegments(): string[] {
+    return readdirSync(this.directory)
+      .filter((file) => {
+        const match = SEGMENT_PATTERN.exec(file);
+        return match !== null && match[1] === this.name;
+      })
+      .sort((a, b) => {
+        const [, , timeA, , seqA] = SEGMENT_PATTERN.exec(a)!;
+        const [, , timeB, , seqB] = SEGMENT_PATTERN.exec(b)!;
+        return Number(timeA) - Number(timeB) || Number(seqA) - Number(seqB);
+      });
+  }
+}
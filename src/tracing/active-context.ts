@@ -0,0 +1,66 @@
+/**
+ * Active span context for Loggy tracing
+ *
+ * Tracks the current span per async call chain using AsyncLocalStorage, so
+ * concurrent requests never see each other's spans.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Baggage } from "./baggage";
+import type { LoggySpan } from "./span";
+
+/**
+ * Values carried along an async call chain
+ */
+export interface ActiveContext {
+  span?: LoggySpan;
+  baggage?: Baggage;
+  /**
+   * Set while Loggy sends its own data, so outgoing requests are not traced
+   */
+  suppressInstrumentation?: boolean;
+}
+
+const storage = new AsyncLocalStorage<ActiveContext>();
+const ROOT_CONTEXT: ActiveContext = Object.freeze({});
+
+export const context = {
+  /**
+   * Get the context of the current async call chain
+   */
+  active(): ActiveContext {
+    return storage.getStore() ?? ROOT_CONTEXT;
+  },
+
+  /**
+   * Get the span that is active in the current async call chain (if any)
+   */
+  activeSpan(): LoggySpan | undefined {
+    return storage.getStore()?.span;
+  },
+
+  /**
+   * Run a function with the given span set as the active span.
+   * The span stays active for every async operation started inside `fn`.
+   */
+  with<T>(span: LoggySpan, fn: () => T): T {
+    return storage.run({ ...storage.getStore(), span }, fn);
+  },
+
+  /**
+   * Run a function with the given baggage replacing the active baggage
+   */
+  withBaggage<T>(baggage: Baggage, fn: () => T): T {
+    return storage.run({ ...storage.getStore(), baggage }, fn);
+  },
+
+  /**
+   * Run a function without tracing the outgoing requests it makes
+   */
+  suppress<T>(fn: () => T): T {
+    return storage.run(
+      { ...storage.getStore(), suppressInstrumentation: true },
+      fn,
+    );
+  },
+};
@@ -0,0 +1,295 @@
+/**
+ * Tracing adapters for node:http, Fastify, Koa and Hono. Each one maps its
+ * framework's request and response onto the shared server span lifecycle,
+ * so spans look the same as those of the Express middleware.
+ *
+ * The framework types below only describe what the adapters use, so none
+ * of the frameworks has to be installed.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { TLSSocket } from "node:tls";
+import {
+  endServerSpan,
+  hostname,
+  isIgnoredRoute,
+  recordException,
+  startServerSpan,
+  withServerSpan,
+  type ServerTracingOptions,
+} from "./server-span";
+import type { LoggySpan } from "./span";
+
+/**
+ * Split a request target into path and query string
+ */
+function pathOf(url: string): string {
+  return url.split("?")[0] || "/";
+}
+
+function schemeOf(req: IncomingMessage): string {
+  return (req.socket as TLSSocket | undefined)?.encrypted ? "https" : "http";
+}
+
+/**
+ * Run a handler that may return a promise, recording a thrown or rejected
+ * error on the span before passing it on
+ */
+function runHandler<T>(span: LoggySpan, fn: () => T): T {
+  const onError = (err: unknown) => {
+    recordException(span, err as Error);
+    throw err;
+  };
+  try {
+    const result = withServerSpan(span, fn);
+    if (result instanceof Promise) {
+      return result.catch(onError) as T;
+    }
+    return result;
+  } catch (err) {
+    return onError(err);
+  }
+}
+
+/**
+ * Wrap a node:http request listener so every request gets a server span
+ *
+ * @example
+ * http.createServer(createHttpTracingHandler({ tracer }, (req, res) => {
+ *   res.end("ok");
+ * }));
+ */
+export function createHttpTracingHandler<
+  Req extends IncomingMessage = IncomingMessage,
+  Res extends ServerResponse = ServerResponse,
+>(
+  options: ServerTracingOptions,
+  handler: (req: Req, res: Res) => unknown,
+): (req: Req, res: Res) => unknown {
+  const { tracer, ignoreRoutes } = options;
+
+  return (req, res) => {
+    const url = req.url ?? "/";
+    const path = pathOf(url);
+    if (isIgnoredRoute(path, ignoreRoutes)) return handler(req, res);
+
+    const span = startServerSpan(tracer, {
+      method: req.method ?? "GET",
+      url,
+      path,
+      headers: req.headers,
+      host: hostname(req.headers.host),
+      scheme: schemeOf(req),
+      ip: req.socket?.remoteAddress,
+    });
+
+    // "close" without "finish" means the connection went away first
+    res.once("finish", () => endServerSpan(span, res.statusCode));
+    res.once("close", () => {
+      if (!res.writableFinished) {
+        recordException(span, new Error("Request aborted"));
+        span.end();
+      }
+    });
+
+    return runHandler(span, () => handler(req, res));
+  };
+}
+
+interface FastifyRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  hostname: string;
+  protocol?: string;
+  ip: string;
+  raw: IncomingMessage;
+  routeOptions?: { url?: string };
+}
+
+interface FastifyReply {
+  statusCode: number;
+}
+
+interface FastifyInstance {
+  addHook(
+    name: "onRequest",
+    hook: (req: FastifyRequest, reply: FastifyReply, done: () => void) => void,
+  ): unknown;
+  addHook(
+    name: "preHandler",
+    hook: (req: FastifyRequest, reply: FastifyReply, done: () => void) => void,
+  ): unknown;
+  addHook(
+    name: "onResponse",
+    hook: (req: FastifyRequest, reply: FastifyReply, done: () => void) => void,
+  ): unknown;
+  addHook(
+    name: "onError",
+    hook: (
+      req: FastifyRequest,
+      reply: FastifyReply,
+      error: Error,
+      done: () => void,
+    ) => void,
+  ): unknown;
+}
+
+/**
+ * Create a Fastify plugin that traces every request
+ *
+ * @example
+ * await fastify.register(createFastifyTracingPlugin({ tracer }));
+ */
+export function createFastifyTracingPlugin(options: ServerTracingOptions) {
+  const { tracer, ignoreRoutes } = options;
+  const spans = new WeakMap<FastifyRequest, LoggySpan>();
+
+  const plugin = (
+    fastify: FastifyInstance,
+    _options: unknown,
+    done: () => void,
+  ) => {
+    fastify.addHook("onRequest", (req, _reply, next) => {
+      const path = pathOf(req.url);
+      if (isIgnoredRoute(path, ignoreRoutes)) return next();
+
+      const span = startServerSpan(tracer, {
+        method: req.method,
+        url: req.url,
+        path,
+        headers: req.headers,
+        host: req.hostname,
+        scheme: req.protocol ?? schemeOf(req.raw),
+        ip: req.ip,
+        route: req.routeOptions?.url,
+      });
+      spans.set(req, span);
+      withServerSpan(span, next);
+    });
+
+    // Body parsing continues from socket events outside the span's context,
+    // so make the span active again right before the handler runs
+    fastify.addHook("preHandler", (req, _reply, next) => {
+      const span = spans.get(req);
+      if (span) return withServerSpan(span, next);
+      next();
+    });
+
+    fastify.addHook("onError", (req, _reply, error, next) => {
+      const span = spans.get(req);
+      if (span) recordException(span, error);
+      next();
+    });
+
+    fastify.addHook("onResponse", (req, reply, next) => {
+      const span = spans.get(req);
+      if (span) endServerSpan(span, reply.statusCode, req.routeOptions?.url);
+      next();
+    });
+
+    done();
+  };
+
+  // Apply the hooks to the whole app rather than an encapsulated context,
+  // like fastify-plugin does
+  return Object.assign(plugin, {
+    [Symbol.for("skip-override")]: true,
+  });
+}
+
+interface KoaContext {
+  method: string;
+  url: string;
+  originalUrl?: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  hostname: string;
+  protocol: string;
+  ip: string;
+  status: number;
+  // Set by @koa/router once a route matched
+  _matchedRoute?: string;
+}
+
+/**
+ * Create Koa middleware that traces every request
+ *
+ * @example
+ * app.use(createKoaTracingMiddleware({ tracer }));
+ */
+export function createKoaTracingMiddleware(options: ServerTracingOptions) {
+  const { tracer, ignoreRoutes } = options;
+
+  return async (ctx: KoaContext, next: () => Promise<unknown>) => {
+    if (isIgnoredRoute(ctx.path, ignoreRoutes)) return next();
+
+    const span = startServerSpan(tracer, {
+      method: ctx.method,
+      url: ctx.originalUrl ?? ctx.url,
+      path: ctx.path,
+      headers: ctx.headers,
+      host: ctx.hostname,
+      scheme: ctx.protocol,
+      ip: ctx.ip,
+    });
+
+    let status = 500;
+    try {
+      await runHandler(span, next);
+      status = ctx.status;
+    } catch (err) {
+      // Koa answers with the error's status, 500 by default
+      status = (err as { status?: number }).status ?? 500;
+      throw err;
+    } finally {
+      endServerSpan(span, status, ctx._matchedRoute);
+    }
+  };
+}
+
+interface HonoContext {
+  req: {
+    method: string;
+    url: string;
+    path: string;
+    raw: Request;
+    routePath?: string;
+  };
+  res: Response;
+  error?: Error;
+}
+
+/**
+ * Create Hono middleware that traces every request
+ *
+ * @example
+ * app.use(createHonoTracingMiddleware({ tracer }));
+ */
+export function createHonoTracingMiddleware(options: ServerTracingOptions) {
+  const { tracer, ignoreRoutes } = options;
+
+  return async (c: HonoContext, next: () => Promise<void>) => {
+    if (isIgnoredRoute(c.req.path, ignoreRoutes)) return next();
+
+    const url = new URL(c.req.url);
+    const headers = Object.fromEntries(c.req.raw.headers.entries());
+    const span = startServerSpan(tracer, {
+      method: c.req.method,
+      url: `${url.pathname}${url.search}`,
+      path: c.req.path,
+      headers,
+      host: url.hostname,
+      scheme: url.protocol.replace(":", ""),
+    });
+
+    try {
+      await runHandler(span, next);
+    } finally {
+      // Hono catches handler errors and exposes them as c.error
+      if (c.error) recordException(span, c.error);
+      const route = c.req.routePath === "/*" ? undefined : c.req.routePath;
+      endServerSpan(span, c.res.status, route);
+    }
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * W3C Baggage propagation for Loggy tracing
+ * https://www.w3.org/TR/baggage/
+ *
+ * Baggage carries request-scoped key/values, such as a tenant ID, across
+ * services. It lives in the active context next to the active span.
+ */
+
+import { context } from "./active-context";
+
+const BAGGAGE_HEADER = "baggage";
+
+// Limits from the spec that every implementation must propagate
+const MAX_BAGGAGE_ENTRIES = 180;
+const MAX_BAGGAGE_LENGTH = 8192;
+
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export interface BaggageEntry {
+  value: string;
+  /**
+   * Properties as sent after the value, e.g. ["ttl=60", "secret"]
+   */
+  properties?: string[];
+}
+
+export type Baggage = Map<string, BaggageEntry>;
+
+const EMPTY_BAGGAGE: Baggage = new Map();
+
+/**
+ * Parse a baggage header, or the values of repeated baggage headers
+ * Format: key1=value1;property,key2=value2
+ *
+ * Values are percent-decoded. Invalid entries are dropped, as are entries
+ * beyond the spec's limits.
+ */
+export function parseBaggage(header: string | string[] | undefined): Baggage {
+  const baggage: Baggage = new Map();
+  if (!header) return baggage;
+
+  const members = (Array.isArray(header) ? header.join(",") : header).split(
+    ",",
+  );
+  for (const member of members) {
+    const [pair, ...properties] = member.split(";");
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = pair.slice(0, separator).trim();
+    if (!TOKEN.test(key)) continue;
+
+    let value: string;
+    try {
+      value = decodeURIComponent(pair.slice(separator + 1).trim());
+    } catch {
+      continue;
+    }
+
+    const entry: BaggageEntry = { value };
+    const trimmed = properties.map((property) => property.trim());
+    if (trimmed.some(Boolean)) entry.properties = trimmed.filter(Boolean);
+    baggage.set(key, entry);
+
+    if (baggage.size === MAX_BAGGAGE_ENTRIES) break;
+  }
+
+  return baggage;
+}
+
+/**
+ * Format baggage into a header value, percent-encoding the values. Entries
+ * that would exceed the 8192 character limit are left out.
+ */
+export function formatBaggage(baggage: Baggage): string {
+  let header = "";
+  let count = 0;
+
+  for (const [key, { value, properties }] of baggage) {
+    if (!TOKEN.test(key) || count === MAX_BAGGAGE_ENTRIES) continue;
+
+    const member = [
+      `${key}=${encodeURIComponent(value)}`,
+      ...(properties ?? []),
+    ].join(";");
+    const next = header ? `${header},${member}` : member;
+    if (next.length > MAX_BAGGAGE_LENGTH) continue;
+
+    header = next;
+    count++;
+  }
+
+  return header;
+}
+
+/**
+ * Inject baggage into carrier (HTTP headers)
+ */
+export function injectBaggage(
+  baggage: Baggage,
+  carrier: Record<string, string>,
+): Record<string, string> {
+  const header = formatBaggage(baggage);
+  if (header) {
+    carrier[BAGGAGE_HEADER] = header;
+  }
+  return carrier;
+}
+
+/**
+ * Extract baggage from carrier (HTTP headers)
+ */
+export function extractBaggage(
+  carrier: Record<string, string | string[] | undefined>,
+): Baggage {
+  return parseBaggage(
+    carrier[BAGGAGE_HEADER] || carrier["Baggage"] || carrier["BAGGAGE"],
+  );
+}
+
+export const baggage = {
+  /**
+   * Get the baggage of the current async call chain
+   */
+  active(): Baggage {
+    return context.active().baggage ?? EMPTY_BAGGAGE;
+  },
+
+  /**
+   * Get the value of one baggage entry
+   */
+  get(key: string): string | undefined {
+    return baggage.active().get(key)?.value;
+  },
+
+  /**
+   * Run a function with entries added to the active baggage. The entries
+   * stay set for every async operation started inside `fn` and are sent
+   * downstream by `tracer.inject()`.
+   */
+  with<T>(
+    entries: Record<string, string | BaggageEntry> | Baggage,
+    fn: () => T,
+  ): T {
+    const merged: Baggage = new Map(baggage.active());
+    const pairs = entries instanceof Map ? entries : Object.entries(entries);
+    for (const [key, entry] of pairs) {
+      merged.set(key, typeof entry === "string" ? { value: entry } : entry);
+    }
+    return context.withBaggage(merged, fn);
+  },
+};
+
+/**
+ * Active baggage values to copy onto spans or log entries: all of them for
+ * `true`, only the listed keys for an array
+ */
+export function pickBaggage(
+  selection: boolean | string[] | undefined,
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  if (!selection) return picked;
+
+  for (const [key, { value }] of baggage.active()) {
+    if (selection === true || selection.includes(key)) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+}
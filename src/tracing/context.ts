@@ -9,6 +9,21 @@ const TRACEPARENT_HEADER = "traceparent";
 const TRACESTATE_HEADER = "tracestate";
 const VERSION = "00";
 
+/**
+ * Loggy's own tracestate entry, holding the span ID of the last Loggy span
+ */
+export const LOGGY_TRACESTATE_KEY = "loggy";
+
+// Maximum number of list members in a tracestate header
+const MAX_TRACESTATE_ENTRIES = 32;
+
+// simple-key or tenant-id@system-id
+const TRACESTATE_KEY =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+// Printable ASCII except "," and "=", without trailing spaces
+const TRACESTATE_VALUE =
+  /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
 /**
  * Generate a random 128-bit trace ID (32 hex chars)
  */
@@ -78,24 +93,65 @@ export function formatTraceparent(context: SpanContext): string {
 }
 
 /**
- * Parse a tracestate header
+ * Check a tracestate key and value against the W3C grammar
+ */
+export function isValidTracestateEntry(key: string, value: string): boolean {
+  return TRACESTATE_KEY.test(key) && TRACESTATE_VALUE.test(value);
+}
+
+/**
+ * Parse a tracestate header, or the values of repeated tracestate headers
  * Format: key1=value1,key2=value2
+ *
+ * Invalid and duplicate entries are dropped, as are entries beyond the
+ * 32 allowed.
  */
-export function parseTracestate(header: string): Map<string, string> {
+export function parseTracestate(
+  header: string | string[] | undefined,
+): Map<string, string> {
   const state = new Map<string, string>();
   if (!header) return state;
 
-  const pairs = header.split(",");
-  for (const pair of pairs) {
-    const [key, value] = pair.trim().split("=");
-    if (key && value) {
-      state.set(key, value);
-    }
+  const members = (Array.isArray(header) ? header.join(",") : header).split(
+    ",",
+  );
+  for (const member of members) {
+    const pair = member.trim();
+    if (!pair) continue;
+
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+    const key = pair.slice(0, separator);
+    const value = pair.slice(separator + 1);
+    if (!isValidTracestateEntry(key, value) || state.has(key)) continue;
+
+    state.set(key, value);
+    if (state.size === MAX_TRACESTATE_ENTRIES) break;
   }
 
   return state;
 }
 
+/**
+ * Add or update a tracestate entry. The entry moves to the front, as the
+ * spec requires for modified entries, and the right-most entries are
+ * dropped to stay within 32. Invalid entries leave the state unchanged.
+ */
+export function setTracestateEntry(
+  state: Map<string, string>,
+  key: string,
+  value: string,
+): Map<string, string> {
+  if (!isValidTracestateEntry(key, value)) return state;
+
+  const updated = new Map([[key, value]]);
+  for (const [existingKey, existingValue] of state) {
+    if (updated.size === MAX_TRACESTATE_ENTRIES) break;
+    if (existingKey !== key) updated.set(existingKey, existingValue);
+  }
+  return updated;
+}
+
 /**
  * Format a tracestate map into a header value
  */
@@ -115,8 +171,10 @@ export function injectContext(
 ): Record<string, string> {
   carrier[TRACEPARENT_HEADER] = formatTraceparent(context);
 
-  if (traceState && traceState.size > 0) {
-    carrier[TRACESTATE_HEADER] = formatTracestate(traceState);
+  // Default to the tracestate carried by the span context
+  const state = traceState ?? parseTracestate(context.traceState);
+  if (state.size > 0) {
+    carrier[TRACESTATE_HEADER] = formatTracestate(state);
   }
 
   return carrier;
@@ -136,7 +194,15 @@ export function extractContext(
 
   if (!traceparent) return null;
 
-  return parseTraceparent(traceparent);
+  const context = parseTraceparent(traceparent);
+  if (!context) return null;
+
+  // tracestate is only meaningful together with a valid traceparent
+  const traceState = extractTracestate(carrier);
+  if (traceState.size > 0) {
+    context.traceState = formatTracestate(traceState);
+  }
+  return context;
 }
 
 /**
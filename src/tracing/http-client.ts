@@ -0,0 +1,270 @@
+/**
+ * Automatic client spans for outgoing requests made with http.request,
+ * https.request and the global fetch
+ */
+
+import http from "node:http";
+import https from "node:https";
+import { context } from "./active-context";
+import { recordException } from "./server-span";
+import type { LoggySpan } from "./span";
+import type { LoggyTracer } from "./tracer";
+
+export interface HttpInstrumentationOptions {
+  tracer: LoggyTracer;
+  /**
+   * Instrument node:http (default: true)
+   */
+  http?: boolean;
+  /**
+   * Instrument node:https (default: true)
+   */
+  https?: boolean;
+  /**
+   * Instrument the global fetch (default: true)
+   */
+  fetch?: boolean;
+  /**
+   * URLs that are not traced; strings match as prefixes
+   */
+  ignoreUrls?: Array<string | RegExp>;
+}
+
+type RequestModule = typeof http | typeof https;
+
+/**
+ * Arguments of http.request and https.request, across their overloads
+ */
+type RequestArgs =
+  | [
+      options: http.RequestOptions | string | URL,
+      callback?: (res: http.IncomingMessage) => void,
+    ]
+  | [
+      url: string | URL,
+      options: http.RequestOptions,
+      callback?: (res: http.IncomingMessage) => void,
+    ];
+
+/**
+ * Call an original request function with the caller's arguments
+ */
+function callRequest(
+  fn: RequestModule["request"],
+  thisArg: unknown,
+  args: RequestArgs,
+): http.ClientRequest {
+  return (fn as (...args: RequestArgs) => http.ClientRequest).apply(
+    thisArg,
+    args,
+  );
+}
+
+/**
+ * Resolve the URL and method of http.request(url[, options][, callback]) or
+ * http.request(options[, callback])
+ */
+function describeRequest(
+  args: RequestArgs,
+  defaultProtocol: string,
+): { url: URL; method: string } {
+  const [first, second] = args;
+  const hasUrl = typeof first === "string" || first instanceof URL;
+  const options: http.RequestOptions = hasUrl
+    ? typeof second === "object" && second !== null
+      ? second
+      : {}
+    : (first ?? {});
+
+  let url: URL;
+  if (hasUrl) {
+    url = new URL(first);
+  } else {
+    const protocol = options.protocol ?? defaultProtocol;
+    const host = options.hostname ?? options.host ?? "localhost";
+    const port = options.port ? `:${options.port}` : "";
+    url = new URL(`${protocol}//${host}${port}${options.path ?? "/"}`);
+  }
+
+  return { url, method: (options.method ?? "GET").toUpperCase() };
+}
+
+/**
+ * URL without credentials, as recorded on spans
+ */
+function spanUrl(url: URL): string {
+  const safe = new URL(url.href);
+  safe.username = "";
+  safe.password = "";
+  return safe.href;
+}
+
+/**
+ * Set the response status; client spans treat 4xx and 5xx as errors
+ */
+function recordStatus(span: LoggySpan, statusCode: number): void {
+  span.setAttribute("http.status_code", statusCode);
+  if (statusCode >= 400) {
+    span.setStatus("error", `HTTP ${statusCode}`);
+  } else {
+    span.setStatus("ok");
+  }
+}
+
+/**
+ * Create client spans for outgoing HTTP requests and inject the trace
+ * context into their headers. Returns a function that removes the
+ * instrumentation again.
+ *
+ * @example
+ * const uninstrument = instrumentHttp({ tracer });
+ * await fetch("https://api.example.com/users"); // traced
+ */
+export function instrumentHttp(
+  options: HttpInstrumentationOptions,
+): () => void {
+  const { tracer, ignoreUrls = [] } = options;
+  const restores: Array<() => void> = [];
+
+  const shouldTrace = (url: string): boolean =>
+    !context.active().suppressInstrumentation &&
+    !ignoreUrls.some((pattern) =>
+      typeof pattern === "string" ? url.startsWith(pattern) : pattern.test(url),
+    );
+
+  const startClientSpan = (url: URL, method: string) => {
+    const span = tracer.startSpan(`HTTP ${method}`, {
+      kind: "client",
+      attributes: {
+        "http.method": method,
+        "http.url": spanUrl(url),
+        "http.host": url.host,
+        "http.scheme": url.protocol.replace(":", ""),
+      },
+    });
+    // Headers carrying the client span as parent of the remote server span
+    const headers = context.with(span, () => tracer.inject({}));
+    return { span, headers };
+  };
+
+  const patchModule = (module: RequestModule, defaultProtocol: string) => {
+    const originalRequest = module.request;
+    const originalGet = module.get;
+
+    const request = function (
+      this: unknown,
+      ...args: RequestArgs
+    ): http.ClientRequest {
+      let described: { url: URL; method: string };
+      try {
+        described = describeRequest(args, defaultProtocol);
+      } catch {
+        // Let http.request report invalid arguments itself
+        return callRequest(originalRequest, this, args);
+      }
+      if (!shouldTrace(described.url.href)) {
+        return callRequest(originalRequest, this, args);
+      }
+
+      const { span, headers } = startClientSpan(
+        described.url,
+        described.method,
+      );
+      const req = callRequest(originalRequest, this, args);
+      for (const [name, value] of Object.entries(headers)) {
+        req.setHeader(name, value);
+      }
+
+      let ended = false;
+      const end = () => {
+        if (ended) return;
+        ended = true;
+        span.end();
+      };
+
+      // Runs before the caller's listeners, while they are still attached
+      req.prependOnceListener("response", (res: http.IncomingMessage) => {
+        recordStatus(span, res.statusCode ?? 0);
+        // Node discards responses nobody listens for; do the same so
+        // fire-and-forget requests free their socket
+        if (req.listenerCount("response") === 0) res.resume();
+        res.once("end", end);
+        res.once("close", end);
+      });
+      req.once("error", (err: Error) => {
+        recordException(span, err);
+        end();
+      });
+
+      return req;
+    } as typeof module.request;
+
+    // http.get calls the module-internal request, so it is wrapped as well
+    const get = function (this: unknown, ...args: RequestArgs) {
+      const req = callRequest(request, this, args);
+      req.end();
+      return req;
+    } as typeof module.get;
+
+    module.request = request;
+    module.get = get;
+    restores.push(() => {
+      if (module.request === request) module.request = originalRequest;
+      if (module.get === get) module.get = originalGet;
+    });
+  };
+
+  if (options.http !== false) patchModule(http, "http:");
+  if (options.https !== false) patchModule(https, "https:");
+
+  if (options.fetch !== false && typeof globalThis.fetch === "function") {
+    const originalFetch = globalThis.fetch;
+
+    const instrumentedFetch = async (
+      input: string | URL | Request,
+      init?: RequestInit,
+    ): Promise<Response> => {
+      const isRequest =
+        typeof Request !== "undefined" && input instanceof Request;
+      const href = isRequest ? (input as Request).url : String(input);
+      if (!shouldTrace(href)) return originalFetch(input, init);
+
+      const method = (
+        init?.method ?? (isRequest ? (input as Request).method : "GET")
+      ).toUpperCase();
+      const { span, headers } = startClientSpan(new URL(href), method);
+
+      const merged = new Headers(
+        init?.headers ?? (isRequest ? (input as Request).headers : undefined),
+      );
+      for (const [name, value] of Object.entries(headers)) {
+        merged.set(name, value);
+      }
+
+      try {
+        const response = await originalFetch(input, {
+          ...init,
+          headers: merged,
+        });
+        recordStatus(span, response.status);
+        return response;
+      } catch (err) {
+        recordException(span, err as Error);
+        throw err;
+      } finally {
+        span.end();
+      }
+    };
+
+    globalThis.fetch = instrumentedFetch as typeof fetch;
+    restores.push(() => {
+      if (globalThis.fetch === instrumentedFetch) {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  }
+
+  return () => {
+    restores.forEach((restore) => restore());
+  };
+}
@@ -23,28 +23,83 @@
  * const span = tracer.startSpan('db.query');
  * // ... do work
  * span.end();
+ *
+ * // Active spans (children started inside are parented automatically)
+ * await tracer.startActiveSpan('job.run', async (span) => {
+ *   await doWork();
+ *   span.end();
+ * });
  * ```
  */
 
+export { context, type ActiveContext } from "./active-context";
+export {
+  baggage,
+  extractBaggage,
+  formatBaggage,
+  injectBaggage,
+  parseBaggage,
+  type Baggage,
+  type BaggageEntry,
+} from "./baggage";
+export {
+  createFastifyTracingPlugin,
+  createHonoTracingMiddleware,
+  createHttpTracingHandler,
+  createKoaTracingMiddleware,
+} from "./adapters";
 export {
   extractContext,
+  extractTracestate,
   formatTraceparent,
+  formatTracestate,
   generateSpanId,
   generateTraceId,
   injectContext,
+  isValidTracestateEntry,
+  LOGGY_TRACESTATE_KEY,
   parseTraceparent,
+  parseTracestate,
+  setTracestateEntry,
 } from "./context";
+export { instrumentHttp, type HttpInstrumentationOptions } from "./http-client";
 export { createTracingMiddleware, withSpan } from "./middleware";
+export {
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  type BatchSpanProcessorOptions,
+} from "./processors";
+export {
+  B3MultiPropagator,
+  B3SinglePropagator,
+  CompositePropagator,
+  JaegerPropagator,
+  W3CTraceContextPropagator,
+  type Propagator,
+} from "./propagators";
+export {
+  AlwaysOffSampler,
+  AlwaysOnSampler,
+  isSampled,
+  ParentBasedSampler,
+  TraceIdRatioSampler,
+  type Sampler,
+  type SamplingParams,
+} from "./sampler";
+export type { ServerTracingOptions } from "./server-span";
 export { LoggySpan } from "./span";
+export { TailSampler, type TailSamplingOptions } from "./tail-sampling";
 export { CreateTracer, LoggyTracer } from "./tracer";
 export type {
   Span,
   SpanAttributes,
+  SpanBatch,
   SpanContext,
   SpanData,
   SpanEvent,
   SpanKind,
   SpanOptions,
+  SpanProcessor,
   SpanStatus,
   Tracer,
   TracerConfig,
@@ -3,12 +3,18 @@
  */
 
 import type { NextFunction, Request, Response } from "express";
+import {
+  endServerSpan,
+  isIgnoredRoute,
+  recordException,
+  startServerSpan,
+  withServerSpan,
+  type ServerTracingOptions,
+} from "./server-span";
 import type { LoggyTracer } from "./tracer";
 import type { SpanAttributes } from "./types";
 
-export interface TracingMiddlewareOptions {
-  tracer: LoggyTracer;
-  ignoreRoutes?: string[];
+export interface TracingMiddlewareOptions extends ServerTracingOptions {
   recordRequestBody?: boolean;
   recordResponseBody?: boolean;
 }
@@ -26,35 +32,25 @@ export function createTracingMiddleware(options: TracingMiddlewareOptions) {
 
   return (req: Request, res: Response, next: NextFunction) => {
     // Skip ignored routes
-    if (ignoreRoutes.some((route) => req.path.startsWith(route))) {
+    if (isIgnoredRoute(req.path, ignoreRoutes)) {
       return next();
     }
 
-    // Extract parent context from incoming headers
-    const parentContext = tracer.extract(req.headers as Record<string, string>);
-
-    // Build operation name
-    const operationName = `${req.method} ${req.route?.path || req.path}`;
-
-    // Start span
-    const span = tracer.startSpan(operationName, {
-      kind: "server",
-      parent: parentContext || undefined,
-      attributes: {
-        "http.method": req.method,
-        "http.url": req.originalUrl,
-        "http.target": req.path,
-        "http.host": req.hostname,
-        "http.scheme": req.protocol,
-        "http.user_agent": req.get("user-agent") || "",
-        "net.peer.ip": req.ip || "",
-      },
+    const span = startServerSpan(tracer, {
+      method: req.method,
+      url: req.originalUrl,
+      path: req.path,
+      headers: req.headers,
+      host: req.hostname,
+      scheme: req.protocol,
+      ip: req.ip,
+      route: req.route?.path,
     });
 
     // Record request body if enabled
     if (recordRequestBody && req.body) {
       try {
-        const bodyStr = JSON.stringify(req.body);
+        const bodyStr = JSON.stringify(tracer.redact(req.body));
         if (bodyStr.length <= 1024) {
           span.setAttribute("http.request.body", bodyStr);
         }
@@ -81,37 +77,22 @@ export function createTracingMiddleware(options: TracingMiddlewareOptions) {
     }
 
     res.end = function (chunk?: any, encoding?: any, callback?: any) {
-      // Set response attributes
-      span.setAttribute("http.status_code", res.statusCode);
-
       if (responseBody && responseBody.length <= 1024) {
         span.setAttribute("http.response.body", responseBody);
       }
 
-      // Set status based on HTTP status code
-      if (res.statusCode >= 400) {
-        span.setStatus("error", `HTTP ${res.statusCode}`);
-      } else {
-        span.setStatus("ok");
-      }
-
-      // End span
-      span.end();
+      // The route is only known once a route handler matched
+      const route = req.route?.path && `${req.baseUrl}${req.route.path}`;
+      endServerSpan(span, res.statusCode, route);
 
       return originalEnd.call(this, chunk, encoding, callback);
     };
 
     // Handle errors
-    res.on("error", (err) => {
-      span.setStatus("error", err.message);
-      span.addEvent("exception", {
-        "exception.type": err.name,
-        "exception.message": err.message,
-        "exception.stacktrace": err.stack || "",
-      });
-    });
+    res.on("error", (err) => recordException(span, err));
 
-    next();
+    // Run the rest of the request with the server span active
+    withServerSpan(span, () => next());
   };
 }
 
@@ -124,26 +105,20 @@ export function withSpan<T>(
   fn: () => Promise<T>,
   attributes?: SpanAttributes,
 ): Promise<T> {
-  const span = tracer.startSpan(operationName, {
-    kind: "internal",
-    attributes,
-    parent: tracer.getCurrentSpan()?.context,
-  });
-
-  return fn()
-    .then((result) => {
-      span.setStatus("ok");
-      span.end();
-      return result;
-    })
-    .catch((err) => {
-      span.setStatus("error", err.message);
-      span.addEvent("exception", {
-        "exception.type": err.name || "Error",
-        "exception.message": err.message,
-        "exception.stacktrace": err.stack || "",
-      });
-      span.end();
-      throw err;
-    });
+  return tracer.startActiveSpan(
+    operationName,
+    { kind: "internal", attributes },
+    (span) =>
+      fn()
+        .then((result) => {
+          span.setStatus("ok");
+          span.end();
+          return result;
+        })
+        .catch((err) => {
+          recordException(span, err);
+          span.end();
+          throw err;
+        }),
+  );
 }
@@ -0,0 +1,173 @@
+/**
+ * Built-in span processors that export ended spans through a transport
+ */
+
+import { BoundedBuffer, type BufferOptions } from "../buffer";
+import { Backoff, type RetryOptions } from "../retry";
+import { DiskSpool, type SpoolOptions } from "../spool";
+import type { Transport } from "../transports";
+import type { SpanBatch, SpanData, SpanProcessor } from "./types";
+
+/**
+ * Send every ended span on its own as soon as it ends. Failed sends are
+ * dropped; use `BatchSpanProcessor` for retries and buffering.
+ */
+export class SimpleSpanProcessor implements SpanProcessor {
+  private transport: Transport<SpanBatch>;
+  private pending = new Set<Promise<void>>();
+  private dropped = 0;
+
+  constructor(transport: Transport<SpanBatch>) {
+    this.transport = transport;
+  }
+
+  onEnd(span: SpanData): void {
+    const sending = this.transport
+      .send({ spans: [span] })
+      .catch(() => {
+        this.dropped++;
+      })
+      .finally(() => this.pending.delete(sending));
+    this.pending.add(sending);
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+    await this.transport.flush?.();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.transport.close?.();
+  }
+
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+}
+
+export interface BatchSpanProcessorOptions {
+  transport: Transport<SpanBatch>;
+  /**
+   * Spans to collect before sending (default: 100)
+   */
+  batchSize?: number;
+  /**
+   * Milliseconds between automatic flushes (default: 5000)
+   */
+  flushInterval?: number;
+  /**
+   * Backoff between failed flushes and attempts before a batch is dropped
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit on spans held in memory while waiting to be sent
+   */
+  buffer?: BufferOptions;
+  /**
+   * Write batches that could not be delivered to disk and replay them on
+   * the next start
+   */
+  spool?: SpoolOptions;
+}
+
+/**
+ * Buffer ended spans and send them in batches, retrying failed batches with
+ * backoff and spooling them to disk when configured. This is what the tracer
+ * uses for `transport`/`remote`.
+ */
+export class BatchSpanProcessor implements SpanProcessor {
+  private transport: Transport<SpanBatch>;
+  private spanBuffer: BoundedBuffer<SpanData>;
+  private backoff: Backoff;
+  private spool?: DiskSpool<SpanBatch>;
+  private replaying: Promise<void> = Promise.resolve();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private batchSize: number;
+
+  constructor(options: BatchSpanProcessorOptions) {
+    this.transport = options.transport;
+    this.spanBuffer = new BoundedBuffer(options.buffer);
+    this.backoff = new Backoff(options.retry);
+    this.batchSize = options.batchSize ?? 100;
+    if (options.spool) {
+      this.spool = new DiskSpool("spans", options.spool);
+    }
+
+    this.flushTimer = setInterval(
+      () => this.flushBuffer(),
+      options.flushInterval ?? 5000,
+    );
+    // Let the process exit; graceful shutdown flushes on beforeExit
+    this.flushTimer.unref?.();
+
+    // Deliver batches spooled by a previous process
+    const transport = this.transport;
+    if (this.spool) {
+      this.replaying = this.spool
+        .replay((batch) => transport.send(batch))
+        .catch(() => {});
+    }
+  }
+
+  onEnd(span: SpanData): void {
+    this.spanBuffer.push(span);
+
+    if (this.spanBuffer.length >= this.batchSize) {
+      this.flushBuffer();
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.flushBuffer(true);
+    await this.transport.flush?.();
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flushBuffer(true);
+    await this.replaying;
+    if (this.spool) {
+      // Keep whatever the final flush could not deliver
+      const remaining = this.spanBuffer.drain();
+      if (remaining.length > 0 && !this.spool.write({ spans: remaining })) {
+        this.spanBuffer.markDropped(remaining.length);
+      }
+      this.spool.close();
+    }
+    await this.transport.close?.();
+  }
+
+  /**
+   * Number of spans dropped because the buffer was full or a batch ran out
+   * of retry attempts
+   */
+  getDroppedCount(): number {
+    return this.spanBuffer.dropped;
+  }
+
+  /**
+   * Send buffered spans; unless forced, wait out the backoff after failures
+   */
+  private async flushBuffer(force = false): Promise<void> {
+    if (this.spanBuffer.length === 0) return;
+    if (!force && !this.backoff.canAttempt()) return;
+
+    const spansToSend = this.spanBuffer.drain();
+
+    try {
+      await this.transport.send({ spans: spansToSend });
+      this.backoff.onSuccess();
+    } catch {
+      // Put spans back in buffer for retry until attempts run out
+      if (this.backoff.onFailure()) {
+        this.spanBuffer.requeue(spansToSend);
+      } else if (!this.spool?.write({ spans: spansToSend })) {
+        this.spanBuffer.markDropped(spansToSend.length);
+      }
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Propagators reading and writing trace context in the header formats of
+ * other tracing systems, so traces stitch across mixed fleets
+ */
+
+import { extractContext, injectContext } from "./context";
+import type { SpanContext } from "./types";
+
+export interface Propagator {
+  /**
+   * Write the span context into carrier (HTTP headers)
+   */
+  inject(context: SpanContext, carrier: Record<string, string>): void;
+  /**
+   * Read a span context from carrier, or null when the format is absent or
+   * invalid
+   */
+  extract(carrier: Record<string, string>): SpanContext | null;
+}
+
+const B3_SINGLE_HEADER = "b3";
+const B3_TRACE_ID_HEADER = "x-b3-traceid";
+const B3_SPAN_ID_HEADER = "x-b3-spanid";
+const B3_PARENT_SPAN_ID_HEADER = "x-b3-parentspanid";
+const B3_SAMPLED_HEADER = "x-b3-sampled";
+const B3_FLAGS_HEADER = "x-b3-flags";
+const JAEGER_HEADER = "uber-trace-id";
+
+/**
+ * Look up a header regardless of its case
+ */
+function getHeader(
+  carrier: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  let value = carrier[name];
+  if (value === undefined) {
+    const key = Object.keys(carrier).find((k) => k.toLowerCase() === name);
+    value = key === undefined ? undefined : carrier[key];
+  }
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Normalize a 64- or 128-bit hex ID to `length` chars, or null when invalid
+ * or all zeros
+ */
+function normalizeId(id: string | undefined, length: number): string | null {
+  if (!id || id.length > length || !/^[0-9a-f]+$/i.test(id)) return null;
+  const padded = id.toLowerCase().padStart(length, "0");
+  return /^0+$/.test(padded) ? null : padded;
+}
+
+/**
+ * W3C Trace Context (`traceparent` and `tracestate`), the default
+ */
+export class W3CTraceContextPropagator implements Propagator {
+  inject(context: SpanContext, carrier: Record<string, string>): void {
+    injectContext(context, carrier);
+  }
+
+  extract(carrier: Record<string, string>): SpanContext | null {
+    return extractContext(carrier);
+  }
+}
+
+/**
+ * Zipkin B3 single header: `b3: {traceId}-{spanId}-{sampled}-{parentSpanId}`
+ */
+export class B3SinglePropagator implements Propagator {
+  inject(context: SpanContext, carrier: Record<string, string>): void {
+    const sampled = context.traceFlags & 1 ? "1" : "0";
+    carrier[B3_SINGLE_HEADER] =
+      `${context.traceId}-${context.spanId}-${sampled}`;
+  }
+
+  extract(carrier: Record<string, string>): SpanContext | null {
+    const header = getHeader(carrier, B3_SINGLE_HEADER);
+    if (!header) return null;
+
+    // A lone sampling state ("0", "1" or "d") carries no IDs
+    const [rawTraceId, rawSpanId, sampling] = header.trim().split("-");
+    const traceId = normalizeId(rawTraceId, 32);
+    const spanId = normalizeId(rawSpanId, 16);
+    if (!traceId || !spanId || rawSpanId.length !== 16) return null;
+    if (rawTraceId.length !== 16 && rawTraceId.length !== 32) return null;
+
+    return {
+      traceId,
+      spanId,
+      // Debug ("d") implies sampled; a missing state defers to us
+      traceFlags: sampling === "0" ? 0 : 1,
+    };
+  }
+}
+
+/**
+ * Zipkin B3 multiple headers: `X-B3-TraceId`, `X-B3-SpanId`,
+ * `X-B3-Sampled` and `X-B3-Flags`
+ */
+export class B3MultiPropagator implements Propagator {
+  inject(context: SpanContext, carrier: Record<string, string>): void {
+    carrier[B3_TRACE_ID_HEADER] = context.traceId;
+    carrier[B3_SPAN_ID_HEADER] = context.spanId;
+    carrier[B3_SAMPLED_HEADER] = context.traceFlags & 1 ? "1" : "0";
+  }
+
+  extract(carrier: Record<string, string>): SpanContext | null {
+    const rawTraceId = getHeader(carrier, B3_TRACE_ID_HEADER)?.trim();
+    const rawSpanId = getHeader(carrier, B3_SPAN_ID_HEADER)?.trim();
+    const traceId = normalizeId(rawTraceId, 32);
+    const spanId = normalizeId(rawSpanId, 16);
+    if (!traceId || !spanId || rawSpanId!.length !== 16) return null;
+    if (rawTraceId!.length !== 16 && rawTraceId!.length !== 32) return null;
+
+    const sampled = getHeader(carrier, B3_SAMPLED_HEADER)?.trim();
+    const debug = getHeader(carrier, B3_FLAGS_HEADER)?.trim() === "1";
+    const notSampled = sampled === "0" || sampled === "false";
+
+    return {
+      traceId,
+      spanId,
+      traceFlags: debug || !notSampled ? 1 : 0,
+    };
+  }
+}
+
+/**
+ * Jaeger: `uber-trace-id: {traceId}:{spanId}:{parentSpanId}:{flags}`
+ */
+export class JaegerPropagator implements Propagator {
+  inject(context: SpanContext, carrier: Record<string, string>): void {
+    // The parent span ID is deprecated and always sent as 0
+    const flags = context.traceFlags & 1 ? "1" : "0";
+    carrier[JAEGER_HEADER] = `${context.traceId}:${context.spanId}:0:${flags}`;
+  }
+
+  extract(carrier: Record<string, string>): SpanContext | null {
+    const header = getHeader(carrier, JAEGER_HEADER);
+    if (!header) return null;
+
+    let decoded: string;
+    try {
+      // Some clients send the header URL-encoded
+      decoded = decodeURIComponent(header.trim());
+    } catch {
+      return null;
+    }
+
+    const parts = decoded.split(":");
+    if (parts.length !== 4) return null;
+    const [rawTraceId, rawSpanId, , rawFlags] = parts;
+
+    // Jaeger drops leading zeros from its IDs
+    const traceId = normalizeId(rawTraceId, 32);
+    const spanId = normalizeId(rawSpanId, 16);
+    const flags = parseInt(rawFlags, 16);
+    if (!traceId || !spanId || Number.isNaN(flags)) return null;
+
+    // Bit 1 is sampled, bit 2 is debug (which implies sampled)
+    return { traceId, spanId, traceFlags: flags & 0b11 ? 1 : 0 };
+  }
+}
+
+/**
+ * Combine propagators: inject writes every format, extract returns the
+ * first context found, trying the propagators in order
+ */
+export class CompositePropagator implements Propagator {
+  private propagators: Propagator[];
+
+  constructor(propagators: Propagator[]) {
+    this.propagators = propagators;
+  }
+
+  inject(context: SpanContext, carrier: Record<string, string>): void {
+    for (const propagator of this.propagators) {
+      propagator.inject(context, carrier);
+    }
+  }
+
+  extract(carrier: Record<string, string>): SpanContext | null {
+    for (const propagator of this.propagators) {
+      const context = propagator.extract(carrier);
+      if (context) return context;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Head-based samplers deciding at span start whether a trace is recorded
+ */
+
+import type { SpanAttributes, SpanContext, SpanKind } from "./types";
+
+export interface SamplingParams {
+  traceId: string;
+  operationName: string;
+  kind: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Context of the parent span, local or extracted from a `traceparent`
+   */
+  parent?: SpanContext;
+}
+
+export interface Sampler {
+  /**
+   * Return true to record and export the span
+   */
+  shouldSample(params: SamplingParams): boolean;
+}
+
+/**
+ * Check the sampled bit of a span context's trace flags
+ */
+export function isSampled(context: SpanContext): boolean {
+  return (context.traceFlags & 1) === 1;
+}
+
+/**
+ * Sample every trace
+ */
+export class AlwaysOnSampler implements Sampler {
+  shouldSample(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Sample no traces
+ */
+export class AlwaysOffSampler implements Sampler {
+  shouldSample(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Sample a fixed fraction of traces. The decision is derived from the trace
+ * ID, so every service using the same ratio keeps the same traces.
+ */
+export class TraceIdRatioSampler implements Sampler {
+  private threshold: number;
+
+  constructor(ratio: number) {
+    const clamped = Math.min(Math.max(ratio, 0), 1);
+    this.threshold = Math.floor(clamped * 0x100000000);
+  }
+
+  shouldSample({ traceId }: SamplingParams): boolean {
+    return parseInt(traceId.slice(-8), 16) < this.threshold;
+  }
+}
+
+/**
+ * Follow the parent's sampled flag, and use `root` for spans that start a
+ * new trace
+ */
+export class ParentBasedSampler implements Sampler {
+  private root: Sampler;
+
+  constructor(root: Sampler) {
+    this.root = root;
+  }
+
+  shouldSample(params: SamplingParams): boolean {
+    if (params.parent) return isSampled(params.parent);
+    return this.root.shouldSample(params);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Server span lifecycle shared by the framework adapters, so every
+ * framework gets the same parent extraction, attributes and status mapping
+ */
+
+import { context } from "./active-context";
+import { extractBaggage, type Baggage } from "./baggage";
+import type { LoggySpan } from "./span";
+import type { LoggyTracer } from "./tracer";
+
+export interface ServerTracingOptions {
+  tracer: LoggyTracer;
+  /**
+   * Path prefixes that are not traced, e.g. ["/health"]
+   */
+  ignoreRoutes?: string[];
+}
+
+/**
+ * Incoming request as seen by an adapter
+ */
+export interface ServerRequest {
+  method: string;
+  /**
+   * Request target as received, including the query string
+   */
+  url: string;
+  /**
+   * Path without the query string
+   */
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  host?: string;
+  scheme?: string;
+  ip?: string;
+  /**
+   * Route template, when the framework matched one before the span starts
+   */
+  route?: string;
+}
+
+// Baggage received with the request of each server span
+const requestBaggage = new WeakMap<LoggySpan, Baggage>();
+
+/**
+ * Check a request path against `ignoreRoutes`
+ */
+export function isIgnoredRoute(path: string, ignoreRoutes: string[] = []) {
+  return ignoreRoutes.some((route) => path.startsWith(route));
+}
+
+/**
+ * Start a server span, continuing the trace and baggage of the incoming
+ * headers
+ */
+export function startServerSpan(
+  tracer: LoggyTracer,
+  request: ServerRequest,
+): LoggySpan {
+  // Extract parent context from incoming headers
+  const parentContext = tracer.extract(
+    request.headers as Record<string, string>,
+  );
+  const userAgent = request.headers["user-agent"];
+  const incoming = extractBaggage(request.headers);
+
+  // Start the span with the baggage active so it can be copied onto it
+  const span = context.withBaggage(incoming, () =>
+    tracer.startSpan(`${request.method} ${request.route || request.path}`, {
+      kind: "server",
+      parent: parentContext,
+      attributes: {
+        "http.method": request.method,
+        "http.url": request.url,
+        "http.target": request.path,
+        "http.host": request.host || "",
+        "http.scheme": request.scheme || "http",
+        "http.user_agent":
+          (Array.isArray(userAgent) ? userAgent[0] : userAgent) || "",
+        "net.peer.ip": request.ip || "",
+      },
+    }),
+  );
+  requestBaggage.set(span, incoming);
+  return span;
+}
+
+/**
+ * Run a function with the server span active, along with the baggage of
+ * its request
+ */
+export function withServerSpan<T>(span: LoggySpan, fn: () => T): T {
+  const incoming = requestBaggage.get(span);
+  return context.with(span, () =>
+    incoming && incoming.size > 0 ? context.withBaggage(incoming, fn) : fn(),
+  );
+}
+
+/**
+ * Record the response status and end the span; 4xx and 5xx are errors
+ */
+export function endServerSpan(
+  span: LoggySpan,
+  statusCode: number,
+  route?: string,
+): void {
+  if (route) span.setAttribute("http.route", route);
+  span.setAttribute("http.status_code", statusCode);
+
+  if (statusCode >= 400) {
+    span.setStatus("error", `HTTP ${statusCode}`);
+  } else {
+    span.setStatus("ok");
+  }
+
+  span.end();
+}
+
+/**
+ * Mark a span as failed and add an `exception` event
+ */
+export function recordException(span: LoggySpan, err: Error): void {
+  span.setStatus("error", err.message);
+  span.addEvent("exception", {
+    "exception.type": err.name || "Error",
+    "exception.message": err.message,
+    "exception.stacktrace": err.stack || "",
+  });
+}
+
+/**
+ * Host name of a Host header, without the port
+ */
+export function hostname(host: string | string[] | undefined): string {
+  const value = Array.isArray(host) ? host[0] : host;
+  if (!value) return "";
+  // Keep IPv6 literals such as [::1]:8080 intact
+  return value.startsWith("[")
+    ? value.slice(0, value.indexOf("]") + 1)
+    : value.split(":")[0];
+}
@@ -35,12 +35,22 @@ export class LoggySpan implements Span {
     serviceName: string,
     options: {
       traceId: string;
+      spanId?: string;
       parentSpanId?: string;
+      /**
+       * W3C tracestate header value carried with the span context
+       */
+      traceState?: string;
       kind?: SpanKind;
       attributes?: SpanAttributes;
       startTime?: Date;
       resourceAttributes?: SpanAttributes;
       onEnd?: (span: LoggySpan) => void;
+      /**
+       * Unsampled spans are non-recording: they carry context for
+       * propagation but ignore updates and are never exported
+       */
+      sampled?: boolean;
     },
   ) {
     this.operationName = operationName;
@@ -50,14 +60,18 @@ export class LoggySpan implements Span {
     this._parentSpanId = options.parentSpanId;
     this._resourceAttributes = options.resourceAttributes;
     this._onEnd = options.onEnd;
+    this._recording = options.sampled ?? true;
 
     this.context = {
       traceId: options.traceId,
-      spanId: generateSpanId(),
-      traceFlags: 1, // Sampled
+      spanId: options.spanId ?? generateSpanId(),
+      traceFlags: this._recording ? 1 : 0,
     };
+    if (options.traceState) {
+      this.context.traceState = options.traceState;
+    }
 
-    if (options.attributes) {
+    if (this._recording && options.attributes) {
       this._attributes = { ...options.attributes };
     }
   }
@@ -109,6 +123,7 @@ export class LoggySpan implements Span {
       traceId: this.context.traceId,
       spanId: this.context.spanId,
       parentSpanId: this._parentSpanId || null,
+      traceState: this.context.traceState,
       operationName: this.operationName,
       serviceName: this.serviceName,
       spanKind: this.spanKind,
@@ -0,0 +1,170 @@
+/**
+ * Tail-based sampling: hold a trace's spans until its local root span ends,
+ * then keep or drop the whole trace
+ */
+
+import type { LoggySpan } from "./span";
+import type { SpanData } from "./types";
+
+export interface TailSamplingOptions {
+  /**
+   * Keep traces in which any span has status "error" (default: true)
+   */
+  keepErrors?: boolean;
+  /**
+   * Keep traces whose local root span took at least this long in ms
+   */
+  minDurationMs?: number;
+  /**
+   * Custom rules; a trace is kept when any rule returns true
+   */
+  rules?: Array<(spans: SpanData[]) => boolean>;
+  /**
+   * Fraction of the remaining traces to keep at random (default: 0)
+   */
+  ratio?: number;
+  /**
+   * Time in ms to hold a trace whose root has not ended before deciding on
+   * the spans collected so far (default: 30000)
+   */
+  decisionWaitMs?: number;
+  /**
+   * Incomplete traces held at once; the oldest is decided early when
+   * exceeded (default: 1000)
+   */
+  maxTraces?: number;
+  /**
+   * Spans held per trace; the trace is decided early when exceeded
+   * (default: 1000)
+   */
+  maxSpansPerTrace?: number;
+}
+
+interface PendingTrace {
+  rootSpanId: string;
+  startedAt: number;
+  spans: SpanData[];
+}
+
+export class TailSampler {
+  private keepErrors: boolean;
+  private minDurationMs?: number;
+  private rules: Array<(spans: SpanData[]) => boolean>;
+  private ratio: number;
+  private decisionWaitMs: number;
+  private maxTraces: number;
+  private maxSpansPerTrace: number;
+  private emit: (span: SpanData) => void;
+  // Both maps iterate in insertion order, oldest trace first
+  private pending = new Map<string, PendingTrace>();
+  private decisions = new Map<string, boolean>();
+
+  constructor(options: TailSamplingOptions, emit: (span: SpanData) => void) {
+    this.keepErrors = options.keepErrors ?? true;
+    this.minDurationMs = options.minDurationMs;
+    this.rules = options.rules ?? [];
+    this.ratio = options.ratio ?? 0;
+    this.decisionWaitMs = options.decisionWaitMs ?? 30000;
+    this.maxTraces = options.maxTraces ?? 1000;
+    this.maxSpansPerTrace = options.maxSpansPerTrace ?? 1000;
+    this.emit = emit;
+  }
+
+  /**
+   * Start holding a trace; the first span seen for it is its local root
+   */
+  onStart(span: LoggySpan): void {
+    const { traceId, spanId } = span.context;
+    if (this.pending.has(traceId) || this.decisions.has(traceId)) return;
+
+    if (this.pending.size >= this.maxTraces) {
+      const [oldestId, oldest] = this.pending.entries().next().value!;
+      this.decide(oldestId, oldest);
+    }
+    this.pending.set(traceId, {
+      rootSpanId: spanId,
+      startedAt: Date.now(),
+      spans: [],
+    });
+  }
+
+  /**
+   * Hold an ended span, or pass it on if its trace was already decided
+   */
+  onEnd(data: SpanData): void {
+    const decision = this.decisions.get(data.traceId);
+    if (decision !== undefined) {
+      if (decision) this.emit(data);
+      return;
+    }
+
+    const trace = this.pending.get(data.traceId);
+    if (!trace) {
+      // Started before the sampler saw it, or its decision was forgotten
+      this.emit(data);
+      return;
+    }
+
+    trace.spans.push(data);
+    if (data.spanId === trace.rootSpanId) {
+      this.decide(data.traceId, trace, data);
+    } else if (trace.spans.length >= this.maxSpansPerTrace) {
+      this.decide(data.traceId, trace);
+    }
+  }
+
+  /**
+   * Decide traces held longer than `decisionWaitMs`
+   */
+  sweep(now = Date.now()): void {
+    for (const [traceId, trace] of this.pending) {
+      if (now - trace.startedAt < this.decisionWaitMs) break;
+      this.decide(traceId, trace);
+    }
+  }
+
+  /**
+   * Decide every held trace, e.g. on shutdown
+   */
+  flush(): void {
+    for (const [traceId, trace] of this.pending) {
+      this.decide(traceId, trace);
+    }
+  }
+
+  /**
+   * Number of traces waiting for a decision
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private decide(traceId: string, trace: PendingTrace, root?: SpanData) {
+    this.pending.delete(traceId);
+
+    const keep = this.shouldKeep(trace.spans, root);
+    // Remember the decision for spans that end after their root
+    this.decisions.set(traceId, keep);
+    if (this.decisions.size > this.maxTraces) {
+      this.decisions.delete(this.decisions.keys().next().value!);
+    }
+
+    if (keep) trace.spans.forEach((span) => this.emit(span));
+  }
+
+  private shouldKeep(spans: SpanData[], root?: SpanData): boolean {
+    if (this.keepErrors && spans.some((span) => span.status === "error")) {
+      return true;
+    }
+    if (
+      root?.endTime &&
+      this.minDurationMs !== undefined &&
+      Date.parse(root.endTime) - Date.parse(root.startTime) >=
+        this.minDurationMs
+    ) {
+      return true;
+    }
+    if (this.rules.some((rule) => rule(spans))) return true;
+    return Math.random() < this.ratio;
+  }
+}
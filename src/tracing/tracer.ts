@@ -2,42 +2,97 @@
  * Tracer implementation for Loggy distributed tracing
  */
 
-import { encryptPayload } from "../crypto";
-import { extractContext, generateTraceId, injectContext } from "./context";
+import { Redactor } from "../redaction";
+import { registerShutdownTarget } from "../shutdown";
+import { HttpTransport, type Transport } from "../transports";
+import { context } from "./active-context";
+import { baggage, injectBaggage, pickBaggage } from "./baggage";
+import {
+  formatTracestate,
+  generateSpanId,
+  generateTraceId,
+  LOGGY_TRACESTATE_KEY,
+  parseTracestate,
+  setTracestateEntry,
+} from "./context";
+import { BatchSpanProcessor } from "./processors";
+import {
+  CompositePropagator,
+  W3CTraceContextPropagator,
+  type Propagator,
+} from "./propagators";
+import { AlwaysOnSampler, ParentBasedSampler, type Sampler } from "./sampler";
 import { LoggySpan } from "./span";
+import { TailSampler } from "./tail-sampling";
 import type {
   SpanAttributes,
+  SpanBatch,
   SpanContext,
   SpanData,
   SpanOptions,
+  SpanProcessor,
   Tracer,
   TracerConfig,
 } from "./types";
 
-// Active span storage (for context propagation within async operations)
-const activeSpans = new Map<string, LoggySpan>();
-
 export class LoggyTracer implements Tracer {
   private serviceName: string;
   private serviceVersion?: string;
   private environment?: string;
-  private remote?: TracerConfig["remote"];
-  private spanBuffer: SpanData[] = [];
-  private flushTimer: ReturnType<typeof setInterval> | null = null;
-  private batchSize: number;
-  private flushInterval: number;
-  private endpoint: string;
+  private exporter?: BatchSpanProcessor;
+  private processors: SpanProcessor[] = [];
+  private redactor?: Redactor;
+  private sampler: Sampler;
+  private tailSampler?: TailSampler;
+  private unregister: () => void;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
   private resourceAttributes: SpanAttributes;
+  private baggageAttributes?: boolean | string[];
+  private propagator: Propagator;
 
   constructor(config: TracerConfig) {
     this.serviceName = config.serviceName;
     this.serviceVersion = config.serviceVersion;
     this.environment = config.environment;
-    this.remote = config.remote;
-    this.batchSize = config.remote?.batchSize ?? 100;
-    this.flushInterval = config.remote?.flushInterval ?? 5000;
-    this.endpoint =
-      config.remote?.endpoint ?? "https://loggy.dev/api/traces/ingest";
+    if (config.redact) {
+      this.redactor = new Redactor(config.redact);
+    }
+    this.sampler =
+      config.sampler ?? new ParentBasedSampler(new AlwaysOnSampler());
+    this.baggageAttributes = config.baggageAttributes;
+    this.propagator = new CompositePropagator(
+      config.propagators ?? [new W3CTraceContextPropagator()],
+    );
+    const flushInterval = config.remote?.flushInterval ?? 5000;
+    const transport: Transport<SpanBatch> | undefined =
+      config.transport ??
+      (config.remote?.token
+        ? new HttpTransport({
+            endpoint:
+              config.remote.endpoint ?? "https://loggy.dev/api/traces/ingest",
+            token: config.remote.token,
+            publicKey: config.remote.publicKey,
+          })
+        : undefined);
+    if (transport) {
+      this.exporter = new BatchSpanProcessor({
+        transport,
+        batchSize: config.remote?.batchSize,
+        flushInterval,
+        retry: config.retry,
+        buffer: config.buffer,
+        spool: config.spool,
+      });
+    }
+
+    if (config.tailSampling) {
+      this.tailSampler = new TailSampler(config.tailSampling, (data) =>
+        this.exportSpan(data),
+      );
+      const tailSampler = this.tailSampler;
+      this.sweepTimer = setInterval(() => tailSampler.sweep(), flushInterval);
+      this.sweepTimer.unref?.();
+    }
 
     // Build resource attributes
     this.resourceAttributes = {
@@ -50,124 +105,192 @@ export class LoggyTracer implements Tracer {
       this.resourceAttributes["deployment.environment"] = this.environment;
     }
 
-    // Start flush timer if remote is configured
-    if (this.remote?.token) {
-      this.flushTimer = setInterval(() => this.flush(), this.flushInterval);
-    }
+    this.unregister = registerShutdownTarget(this);
   }
 
   startSpan(operationName: string, options?: SpanOptions): LoggySpan {
+    // Default to the active span as parent; an explicit null starts a new trace
+    const parent =
+      options?.parent === undefined
+        ? this.getCurrentSpan()?.context
+        : options.parent;
+
     // Determine trace ID - either from parent or generate new
     let traceId: string;
     let parentSpanId: string | undefined;
 
-    if (options?.parent) {
-      traceId = options.parent.traceId;
-      parentSpanId = options.parent.spanId;
+    if (parent) {
+      traceId = parent.traceId;
+      parentSpanId = parent.spanId;
     } else {
       traceId = generateTraceId();
     }
 
+    const kind = options?.kind ?? "internal";
+    // Explicit attributes win over copied baggage entries
+    const attributes = this.baggageAttributes
+      ? { ...pickBaggage(this.baggageAttributes), ...options?.attributes }
+      : options?.attributes;
+    const sampled = this.sampler.shouldSample({
+      traceId,
+      operationName,
+      kind,
+      attributes,
+      parent: parent ?? undefined,
+    });
+
+    // Carry the parent's tracestate with Loggy's entry updated and in front
+    const spanId = generateSpanId();
+    const traceState = setTracestateEntry(
+      parseTracestate(parent?.traceState),
+      LOGGY_TRACESTATE_KEY,
+      spanId,
+    );
+
     const span = new LoggySpan(operationName, this.serviceName, {
       traceId,
+      spanId,
       parentSpanId,
-      kind: options?.kind,
-      attributes: options?.attributes,
+      traceState: formatTracestate(traceState),
+      kind,
+      attributes,
       startTime: options?.startTime,
       resourceAttributes: this.resourceAttributes,
       onEnd: (endedSpan) => this.onSpanEnd(endedSpan),
+      sampled,
     });
-
-    // Store as active span
-    activeSpans.set(span.context.spanId, span);
+    if (sampled) {
+      for (const processor of this.processors) {
+        processor.onStart?.(span);
+      }
+      this.tailSampler?.onStart(span);
+    }
 
     return span;
   }
 
+  /**
+   * Start a span and make it the active span while `fn` runs.
+   * The span is not ended automatically; call `span.end()` inside `fn`.
+   */
+  startActiveSpan<T>(operationName: string, fn: (span: LoggySpan) => T): T;
+  startActiveSpan<T>(
+    operationName: string,
+    options: SpanOptions,
+    fn: (span: LoggySpan) => T,
+  ): T;
+  startActiveSpan<T>(
+    operationName: string,
+    optionsOrFn: SpanOptions | ((span: LoggySpan) => T),
+    maybeFn?: (span: LoggySpan) => T,
+  ): T {
+    const options = typeof optionsOrFn === "function" ? undefined : optionsOrFn;
+    const fn = typeof optionsOrFn === "function" ? optionsOrFn : maybeFn!;
+
+    const span = this.startSpan(operationName, options);
+    return context.with(span, () => fn(span));
+  }
+
+  /**
+   * Add a processor that sees every recorded span when it starts and ends
+   */
+  addSpanProcessor(processor: SpanProcessor): void {
+    this.processors.push(processor);
+  }
+
   private onSpanEnd(span: LoggySpan): void {
-    // Remove from active spans
-    activeSpans.delete(span.context.spanId);
+    if (!this.exporter && this.processors.length === 0) return;
 
-    // Queue for remote sending
-    if (this.remote?.token) {
-      this.spanBuffer.push(span.toData());
+    const data = this.redactSpan(span.toData());
+    if (this.tailSampler) {
+      // Held until the trace is kept or dropped
+      this.tailSampler.onEnd(data);
+    } else {
+      this.exportSpan(data);
+    }
+  }
 
-      if (this.spanBuffer.length >= this.batchSize) {
-        this.flush();
-      }
+  /**
+   * Hand an ended span to the processors, then to the tracer's own export
+   */
+  private exportSpan(data: SpanData): void {
+    for (const processor of this.processors) {
+      if (processor.onEnd?.(data) === false) return;
     }
+    this.exporter?.onEnd(data);
+  }
+
+  /**
+   * Redact a value with the tracer's redaction rules (returns it unchanged
+   * when no rules are configured)
+   */
+  redact<T>(value: T): T {
+    return this.redactor ? this.redactor.redact(value) : value;
+  }
+
+  private redactSpan(data: SpanData): SpanData {
+    const redactor = this.redactor;
+    if (!redactor) return data;
+
+    return {
+      ...data,
+      attributes: data.attributes && redactor.redactAttributes(data.attributes),
+      events: data.events?.map((event) => ({
+        ...event,
+        attributes:
+          event.attributes && redactor.redactAttributes(event.attributes),
+      })),
+    };
   }
 
   inject(carrier: Record<string, string>): Record<string, string> {
-    // Get the most recently created active span as current context
-    const activeSpanArray = Array.from(activeSpans.values());
-    if (activeSpanArray.length === 0) {
+    // Baggage travels even without an active span
+    injectBaggage(baggage.active(), carrier);
+
+    const currentSpan = this.getCurrentSpan();
+    if (!currentSpan) {
       return carrier;
     }
 
-    const currentSpan = activeSpanArray[activeSpanArray.length - 1];
-    return injectContext(currentSpan.context, carrier);
+    this.propagator.inject(currentSpan.context, carrier);
+    return carrier;
   }
 
   extract(carrier: Record<string, string>): SpanContext | null {
-    return extractContext(carrier);
+    return this.propagator.extract(carrier);
   }
 
   async flush(): Promise<void> {
-    if (!this.remote?.token || this.spanBuffer.length === 0) return;
-
-    const spansToSend = [...this.spanBuffer];
-    this.spanBuffer = [];
-
-    try {
-      let body: string;
-      let contentType = "application/json";
-
-      if (this.remote.publicKey) {
-        // Encrypt the payload using hybrid encryption
-        const encrypted = encryptPayload(
-          { spans: spansToSend },
-          this.remote.publicKey,
-        );
-        body = JSON.stringify(encrypted);
-        contentType = "application/json+encrypted";
-      } else {
-        body = JSON.stringify({ spans: spansToSend });
-      }
-
-      const response = await fetch(this.endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": contentType,
-          "x-loggy-token": this.remote.token,
-        },
-        body,
-      });
-
-      if (!response.ok) {
-        // Put spans back in buffer for retry
-        this.spanBuffer = [...spansToSend, ...this.spanBuffer];
-      }
-    } catch {
-      // Put spans back in buffer for retry
-      this.spanBuffer = [...spansToSend, ...this.spanBuffer];
-    }
+    await Promise.all(this.processors.map((processor) => processor.flush?.()));
+    await this.exporter?.flush();
   }
 
   async destroy(): Promise<void> {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-      this.flushTimer = null;
+    this.unregister();
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
     }
-    await this.flush();
+    this.tailSampler?.flush();
+    await Promise.all(
+      this.processors.map((processor) => processor.shutdown?.()),
+    );
+    await this.exporter?.shutdown();
+  }
+
+  /**
+   * Number of spans dropped because the buffer was full or a batch ran out
+   * of retry attempts
+   */
+  getDroppedCount(): number {
+    return this.exporter?.getDroppedCount() ?? 0;
   }
 
   /**
-   * Get the current active span (if any)
+   * Get the span that is active in the current async call chain (if any)
    */
   getCurrentSpan(): LoggySpan | undefined {
-    const activeSpanArray = Array.from(activeSpans.values());
-    return activeSpanArray[activeSpanArray.length - 1];
+    return context.activeSpan();
   }
 
   /**
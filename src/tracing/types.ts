@@ -2,6 +2,15 @@
  * Tracing types for Loggy distributed tracing
  */
 
+import type { BufferOptions } from "../buffer";
+import type { RedactionOptions } from "../redaction";
+import type { RetryOptions } from "../retry";
+import type { SpoolOptions } from "../spool";
+import type { Transport } from "../transports";
+import type { Propagator } from "./propagators";
+import type { Sampler } from "./sampler";
+import type { TailSamplingOptions } from "./tail-sampling";
+
 export type SpanKind =
   | "client"
   | "server"
@@ -31,6 +40,7 @@ export interface SpanData {
   traceId: string;
   spanId: string;
   parentSpanId?: string | null;
+  traceState?: string;
   operationName: string;
   serviceName: string;
   spanKind: SpanKind;
@@ -43,10 +53,81 @@ export interface SpanData {
   resourceAttributes?: SpanAttributes;
 }
 
+/**
+ * Payload handed to the span transport on each flush
+ */
+export interface SpanBatch {
+  spans: SpanData[];
+}
+
+/**
+ * Hooks called for every recorded span. Processors run in the order they
+ * were added, before the tracer's own export to `transport`/`remote`.
+ */
+export interface SpanProcessor {
+  /**
+   * Called when a span starts, e.g. to add attributes
+   */
+  onStart?(span: Span): void;
+  /**
+   * Called with the (redacted) data of an ended span, after tail sampling
+   * has kept its trace. Return false to keep it from later processors and
+   * the tracer's export.
+   */
+  onEnd?(span: SpanData): void | boolean;
+  flush?(): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
 export interface TracerConfig {
   serviceName: string;
   serviceVersion?: string;
   environment?: string;
+  /**
+   * Custom transport for span batches. Replaces the HTTP transport built
+   * from `remote.token`/`remote.endpoint`.
+   */
+  transport?: Transport<SpanBatch>;
+  /**
+   * Backoff between failed flushes and attempts before a batch is dropped
+   */
+  retry?: RetryOptions;
+  /**
+   * Limit on ended spans held in memory while waiting to be sent
+   */
+  buffer?: BufferOptions;
+  /**
+   * Write batches that could not be delivered to disk and replay them on
+   * the next start
+   */
+  spool?: SpoolOptions;
+  /**
+   * Redact sensitive values in span and event attributes before spans are
+   * queued for delivery
+   */
+  redact?: RedactionOptions;
+  /**
+   * Decides at span start whether a trace is recorded and exported
+   * (default: parent-based, sampling every new trace)
+   */
+  sampler?: Sampler;
+  /**
+   * Hold spans until their trace's local root ends and keep only traces
+   * matching the rules (e.g. errors or slow requests). The decision is made
+   * before span processors' onEnd, so processors and the export only see
+   * kept traces.
+   */
+  tailSampling?: TailSamplingOptions;
+  /**
+   * Copy entries of the active baggage onto every new span as attributes:
+   * all of them for `true`, only the listed keys for an array
+   */
+  baggageAttributes?: boolean | string[];
+  /**
+   * Header formats used by inject() and extract(). Inject writes all of
+   * them; extract uses the first one present (default: W3C Trace Context).
+   */
+  propagators?: Propagator[];
   remote?: {
     token: string;
     endpoint?: string;
@@ -79,6 +160,12 @@ export interface Span {
 
 export interface Tracer {
   startSpan(operationName: string, options?: SpanOptions): Span;
+  startActiveSpan<T>(operationName: string, fn: (span: Span) => T): T;
+  startActiveSpan<T>(
+    operationName: string,
+    options: SpanOptions,
+    fn: (span: Span) => T,
+  ): T;
   inject(carrier: Record<string, string>): Record<string, string>;
   extract(carrier: Record<string, string>): SpanContext | null;
   flush(): Promise<void>;
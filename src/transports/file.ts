@@ -0,0 +1,35 @@
+/**
+ * File transport - appends each batch as one JSON line to a file
+ */
+
+import { appendFile } from "node:fs/promises";
+import type { Transport } from "./types";
+
+export interface FileTransportOptions {
+  path: string;
+}
+
+export class FileTransport<T = unknown> implements Transport<T> {
+  private path: string;
+  // Writes are chained so batches land in the order they were sent
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: FileTransportOptions) {
+    this.path = options.path;
+  }
+
+  send(payload: T): Promise<void> {
+    const line = `${JSON.stringify(payload)}\n`;
+    const write = this.pending.then(() => appendFile(this.path, line, "utf8"));
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  close(): Promise<void> {
+    return this.flush();
+  }
+}
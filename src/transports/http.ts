@@ -0,0 +1,70 @@
+/**
+ * HTTP transport - POSTs batches as JSON to an ingest endpoint
+ */
+
+import { encryptPayload } from "../crypto";
+import { context } from "../tracing/active-context";
+import type { Transport } from "./types";
+
+export interface HttpTransportOptions {
+  endpoint: string;
+  /**
+   * Project token sent in the x-loggy-token header
+   */
+  token?: string;
+  /**
+   * RSA public key; when set, payloads are sent end-to-end encrypted
+   */
+  publicKey?: string;
+  headers?: Record<string, string>;
+}
+
+export class HttpTransport<T = unknown> implements Transport<T> {
+  private endpoint: string;
+  private token?: string;
+  private publicKey?: string;
+  private headers: Record<string, string>;
+
+  constructor(options: HttpTransportOptions) {
+    this.endpoint = options.endpoint;
+    this.token = options.token;
+    this.publicKey = options.publicKey;
+    this.headers = options.headers ?? {};
+  }
+
+  async send(payload: T): Promise<void> {
+    let body: string;
+    let contentType = "application/json";
+
+    if (this.publicKey) {
+      // Encrypt the payload using hybrid encryption
+      body = JSON.stringify(encryptPayload(payload, this.publicKey));
+      contentType = "application/json+encrypted";
+    } else {
+      body = JSON.stringify(payload);
+    }
+
+    const headers: Record<string, string> = {
+      ...this.headers,
+      "Content-Type": contentType,
+    };
+    if (this.token) {
+      headers["x-loggy-token"] = this.token;
+    }
+
+    // Never trace Loggy's own requests
+    const response = await context.suppress(() =>
+      fetch(this.endpoint, {
+        method: "POST",
+        headers,
+        body,
+      }),
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Loggy transport request to ${this.endpoint} failed with HTTP ${response.status}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Loggy Transports
+ *
+ * Pluggable delivery for logs, spans and metrics.
+ *
+ * @example
+ * ```typescript
+ * import { CreateLoggy, FileTransport } from '@loggydev/loggy-node';
+ *
+ * const loggy = CreateLoggy({
+ *   identifier: 'worker',
+ *   transport: new FileTransport({ path: '/var/log/worker.ndjson' }),
+ * });
+ * ```
+ */
+
+export { FileTransport, type FileTransportOptions } from "./file";
+export { HttpTransport, type HttpTransportOptions } from "./http";
+export { MemoryTransport } from "./memory";
+export { StdoutTransport, type StdoutTransportOptions } from "./stdout";
+export type { Transport } from "./types";
@@ -0,0 +1,31 @@
+/**
+ * In-memory transport - keeps every batch, for unit tests
+ */
+
+import type { Transport } from "./types";
+
+export class MemoryTransport<T = unknown> implements Transport<T> {
+  readonly batches: T[] = [];
+  private _closed = false;
+
+  async send(payload: T): Promise<void> {
+    this.batches.push(payload);
+  }
+
+  async flush(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this._closed = true;
+  }
+
+  /**
+   * Remove all recorded batches
+   */
+  clear(): void {
+    this.batches.length = 0;
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+}
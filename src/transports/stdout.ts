@@ -0,0 +1,28 @@
+/**
+ * Stdout transport - writes each batch as one JSON line to a stream
+ */
+
+import type { Transport } from "./types";
+
+export interface StdoutTransportOptions {
+  /**
+   * Stream to write to (default: process.stdout)
+   */
+  stream?: NodeJS.WritableStream;
+}
+
+export class StdoutTransport<T = unknown> implements Transport<T> {
+  private stream: NodeJS.WritableStream;
+
+  constructor(options: StdoutTransportOptions = {}) {
+    this.stream = options.stream ?? process.stdout;
+  }
+
+  send(payload: T): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.write(`${JSON.stringify(payload)}\n`, (err) =>
+        err ? reject(err) : resolve(),
+      );
+    });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Transport types shared by CreateLoggy, LoggyTracer and CreateMetrics
+ */
+
+/**
+ * Delivers batches produced by a Loggy subsystem to a destination.
+ *
+ * `send` must reject when a batch could not be delivered so the caller can
+ * keep it for the next flush.
+ */
+export interface Transport<T = unknown> {
+  send(payload: T): Promise<void>;
+  /**
+   * Wait until everything passed to `send` has been written
+   */
+  flush?(): Promise<void>;
+  /**
+   * Flush and release any resources held by the transport
+   */
+  close?(): Promise<void>;
+}
@@ -0,0 +1,272 @@
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  context,
+  createFastifyTracingPlugin,
+  createHonoTracingMiddleware,
+  createHttpTracingHandler,
+  createKoaTracingMiddleware,
+  LoggyTracer,
+  type SpanData,
+} from "../src/tracing";
+
+const PARENT_TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const PARENT_SPAN_ID = "b7ad6b7169203331";
+const TRACEPARENT = `00-${PARENT_TRACE_ID}-${PARENT_SPAN_ID}-01`;
+
+const createTracer = () => {
+  const tracer = new LoggyTracer({ serviceName: "api" });
+  const spans: SpanData[] = [];
+  tracer.addSpanProcessor({ onEnd: (span) => void spans.push(span) });
+  return { tracer, spans };
+};
+
+// Attributes every adapter should produce for GET /users/42?tab=posts
+const expectServerSpan = (span: SpanData, statusCode: number) => {
+  expect(span).toMatchObject({
+    spanKind: "server",
+    traceId: PARENT_TRACE_ID,
+    parentSpanId: PARENT_SPAN_ID,
+    status: statusCode >= 400 ? "error" : "ok",
+    attributes: {
+      "http.method": "GET",
+      "http.url": "/users/42?tab=posts",
+      "http.target": "/users/42",
+      "http.host": "example.com",
+      "http.user_agent": "test-agent",
+      "http.status_code": statusCode,
+    },
+  });
+};
+
+const headers = {
+  traceparent: TRACEPARENT,
+  host: "example.com",
+  "user-agent": "test-agent",
+};
+
+describe("createHttpTracingHandler", () => {
+  const startServer = async (
+    handler: Parameters<typeof createHttpTracingHandler>[1],
+    options: { ignoreRoutes?: string[] } = {},
+  ) => {
+    const { tracer, spans } = createTracer();
+    const server: Server = createServer(
+      createHttpTracingHandler({ tracer, ...options }, handler),
+    );
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    const send = (path: string) =>
+      new Promise<void>((resolve, reject) => {
+        request({ host: "127.0.0.1", port, path, headers }, (res) => {
+          res.resume();
+          res.on("end", () => resolve());
+        })
+          .on("error", reject)
+          .end();
+      });
+    return {
+      spans,
+      send,
+      close: () => new Promise((resolve) => server.close(resolve)),
+    };
+  };
+
+  test("traces requests and keeps the span active in the handler", async () => {
+    let active: string | undefined;
+    const app = await startServer((req, res) => {
+      active = context.activeSpan()?.context.spanId;
+      res.statusCode = 404;
+      res.end();
+    });
+
+    await app.send("/users/42?tab=posts");
+    await app.close();
+
+    expect(app.spans).toHaveLength(1);
+    expectServerSpan(app.spans[0], 404);
+    expect(app.spans[0].operationName).toBe("GET /users/42");
+    expect(app.spans[0].attributes?.["http.scheme"]).toBe("http");
+    expect(active).toBe(app.spans[0].spanId);
+  });
+
+  test("skips ignored routes", async () => {
+    const app = await startServer((req, res) => res.end(), {
+      ignoreRoutes: ["/health"],
+    });
+
+    await app.send("/health");
+    await app.close();
+
+    expect(app.spans).toHaveLength(0);
+  });
+});
+
+describe("createFastifyTracingPlugin", () => {
+  // Run the plugin's hooks the way Fastify does for one request
+  const runRequest = async (
+    plugin: ReturnType<typeof createFastifyTracingPlugin>,
+    handler: () => void,
+  ) => {
+    const hooks: Record<string, (...args: any[]) => void> = {};
+    plugin(
+      { addHook: (name: string, hook: any) => (hooks[name] = hook) } as any,
+      {},
+      () => {},
+    );
+    const req = {
+      method: "GET",
+      url: "/users/42?tab=posts",
+      headers,
+      hostname: "example.com",
+      protocol: "http",
+      ip: "127.0.0.1",
+      routeOptions: { url: "/users/:id" },
+    };
+    const reply = { statusCode: 500 };
+
+    await new Promise<void>((resolve) =>
+      hooks.onRequest(req, reply, () => resolve()),
+    );
+    await new Promise<void>((resolve) =>
+      hooks.preHandler(req, reply, () => {
+        handler();
+        resolve();
+      }),
+    );
+    hooks.onError(req, reply, new Error("boom"), () => {});
+    hooks.onResponse(req, reply, () => {});
+  };
+
+  test("traces requests with the route template", async () => {
+    const { tracer, spans } = createTracer();
+    const plugin = createFastifyTracingPlugin({ tracer });
+    let active: string | undefined;
+
+    await runRequest(plugin, () => {
+      active = context.activeSpan()?.context.spanId;
+    });
+
+    expect((plugin as any)[Symbol.for("skip-override")]).toBe(true);
+    expect(spans).toHaveLength(1);
+    expectServerSpan(spans[0], 500);
+    expect(spans[0].operationName).toBe("GET /users/:id");
+    expect(spans[0].attributes?.["http.route"]).toBe("/users/:id");
+    expect(spans[0].events?.[0].name).toBe("exception");
+    expect(active).toBe(spans[0].spanId);
+  });
+});
+
+describe("createKoaTracingMiddleware", () => {
+  const createContext = () => ({
+    method: "GET",
+    url: "/users/42?tab=posts",
+    originalUrl: "/users/42?tab=posts",
+    path: "/users/42",
+    headers,
+    hostname: "example.com",
+    protocol: "http",
+    ip: "127.0.0.1",
+    status: 404,
+  });
+
+  test("traces requests with the matched route", async () => {
+    const { tracer, spans } = createTracer();
+    const middleware = createKoaTracingMiddleware({ tracer });
+    const ctx: ReturnType<typeof createContext> & { _matchedRoute?: string } =
+      createContext();
+
+    await middleware(ctx, async () => {
+      ctx.status = 200;
+      ctx._matchedRoute = "/users/:id";
+    });
+
+    expect(spans).toHaveLength(1);
+    expectServerSpan(spans[0], 200);
+    expect(spans[0].attributes?.["http.route"]).toBe("/users/:id");
+  });
+
+  test("starts a new trace without a traceparent, even inside an active span", async () => {
+    const { tracer, spans } = createTracer();
+    const middleware = createKoaTracingMiddleware({ tracer });
+    const { traceparent, ...untraced } = headers;
+
+    const bootstrap = await tracer.startActiveSpan(
+      "bootstrap",
+      async (span) => {
+        await middleware(
+          { ...createContext(), headers: untraced },
+          async () => {},
+        );
+        return span;
+      },
+    );
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].traceId).not.toBe(bootstrap.context.traceId);
+    expect(spans[0].parentSpanId).toBeNull();
+  });
+
+  test("records thrown errors with their status", async () => {
+    const { tracer, spans } = createTracer();
+    const middleware = createKoaTracingMiddleware({ tracer });
+    const error = Object.assign(new Error("Not allowed"), { status: 403 });
+
+    await expect(
+      middleware(createContext(), async () => {
+        throw error;
+      }),
+    ).rejects.toThrow("Not allowed");
+
+    expectServerSpan(spans[0], 403);
+    expect(spans[0].events?.[0].attributes?.["exception.message"]).toBe(
+      "Not allowed",
+    );
+  });
+});
+
+describe("createHonoTracingMiddleware", () => {
+  test("traces requests", async () => {
+    const { tracer, spans } = createTracer();
+    const middleware = createHonoTracingMiddleware({ tracer });
+    const c: any = {
+      req: {
+        method: "GET",
+        url: "http://example.com/users/42?tab=posts",
+        path: "/users/42",
+        raw: new Request("http://example.com/users/42?tab=posts", {
+          headers,
+        }),
+        routePath: "/*",
+      },
+      res: new Response(null, { status: 201 }),
+    };
+    let active: string | undefined;
+
+    await middleware(c, async () => {
+      active = context.activeSpan()?.context.spanId;
+      c.req.routePath = "/users/:id";
+    });
+
+    expect(spans).toHaveLength(1);
+    expectServerSpan(spans[0], 201);
+    expect(spans[0].attributes?.["http.route"]).toBe("/users/:id");
+    expect(active).toBe(spans[0].spanId);
+  });
+
+  test("skips ignored routes", async () => {
+    const { tracer, spans } = createTracer();
+    const middleware = createHonoTracingMiddleware({
+      tracer,
+      ignoreRoutes: ["/users"],
+    });
+    const next = jest.fn(async () => {});
+
+    await middleware({ req: { path: "/users/42" } } as any, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(spans).toHaveLength(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { CreateLoggy } from "../src/index";
+import {
+  baggage,
+  context,
+  createKoaTracingMiddleware,
+  extractBaggage,
+  formatBaggage,
+  LoggyTracer,
+  parseBaggage,
+  type SpanData,
+} from "../src/tracing";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("parseBaggage", () => {
+  test("parses entries, percent-decoding values and keeping properties", () => {
+    const parsed = parseBaggage(
+      "tenant=acme, user=J%C3%BCrgen%20S ;ttl=60; secret,cohort=beta",
+    );
+
+    expect(Array.from(parsed)).toEqual([
+      ["tenant", { value: "acme" }],
+      ["user", { value: "Jürgen S", properties: ["ttl=60", "secret"] }],
+      ["cohort", { value: "beta" }],
+    ]);
+  });
+
+  test("drops invalid entries and joins repeated headers", () => {
+    const parsed = parseBaggage([
+      "tenant=acme,no-value,bad key=1,broken=%E0%A4%A",
+      "cohort=beta",
+    ]);
+
+    expect(Array.from(parsed.keys())).toEqual(["tenant", "cohort"]);
+  });
+
+  test("keeps at most 180 entries", () => {
+    const header = Array.from({ length: 200 }, (_, i) => `k${i}=v`).join(",");
+
+    expect(parseBaggage(header).size).toBe(180);
+  });
+});
+
+describe("formatBaggage", () => {
+  test("percent-encodes values and appends properties", () => {
+    const header = formatBaggage(
+      new Map([
+        ["tenant", { value: "acme, inc" }],
+        ["user", { value: "Jürgen", properties: ["ttl=60"] }],
+      ]),
+    );
+
+    expect(header).toBe("tenant=acme%2C%20inc,user=J%C3%BCrgen;ttl=60");
+    expect(parseBaggage(header).get("tenant")?.value).toBe("acme, inc");
+  });
+
+  test("leaves out entries beyond 8192 characters", () => {
+    const header = formatBaggage(
+      new Map([
+        ["a", { value: "x".repeat(5000) }],
+        ["b", { value: "y".repeat(5000) }],
+        ["c", { value: "z" }],
+      ]),
+    );
+
+    expect(Array.from(parseBaggage(header).keys())).toEqual(["a", "c"]);
+  });
+});
+
+describe("baggage", () => {
+  test("keeps entries in the active context and merges nested entries", async () => {
+    expect(baggage.get("tenant")).toBeUndefined();
+
+    await baggage.with({ tenant: "acme", cohort: "beta" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(baggage.get("tenant")).toBe("acme");
+
+      baggage.with({ cohort: "gamma" }, () => {
+        expect(baggage.get("tenant")).toBe("acme");
+        expect(baggage.get("cohort")).toBe("gamma");
+      });
+      expect(baggage.get("cohort")).toBe("beta");
+    });
+
+    expect(baggage.active().size).toBe(0);
+  });
+
+  test("is injected with traceparent and extracted again", () => {
+    const tracer = new LoggyTracer({ serviceName: "test-service" });
+
+    const carrier = baggage.with({ tenant: "acme corp" }, () =>
+      tracer.startActiveSpan("request", () => tracer.inject({})),
+    );
+
+    expect(carrier.traceparent).toBeDefined();
+    expect(carrier.baggage).toBe("tenant=acme%20corp");
+    expect(extractBaggage(carrier).get("tenant")?.value).toBe("acme corp");
+  });
+
+  test("is injected without an active span", () => {
+    const tracer = new LoggyTracer({ serviceName: "test-service" });
+
+    const carrier = baggage.with({ tenant: "acme" }, () => tracer.inject({}));
+
+    expect(carrier).toEqual({ baggage: "tenant=acme" });
+  });
+
+  test("is extracted by server adapters and copied onto spans", async () => {
+    const tracer = new LoggyTracer({
+      serviceName: "test-service",
+      baggageAttributes: ["tenant"],
+    });
+    const spans: SpanData[] = [];
+    tracer.addSpanProcessor({ onEnd: (span) => void spans.push(span) });
+    const middleware = createKoaTracingMiddleware({ tracer });
+    let seen: string | undefined;
+
+    await middleware(
+      {
+        method: "GET",
+        url: "/",
+        path: "/",
+        headers: { baggage: "tenant=acme,cohort=beta" },
+        hostname: "localhost",
+        protocol: "http",
+        ip: "127.0.0.1",
+        status: 200,
+      },
+      async () => {
+        seen = baggage.get("tenant");
+        tracer.startSpan("child").end();
+      },
+    );
+
+    expect(seen).toBe("acme");
+    expect(spans.map((span) => span.attributes?.tenant)).toEqual([
+      "acme",
+      "acme",
+    ]);
+    expect(spans[1].attributes?.cohort).toBeUndefined();
+  });
+
+  test("is copied into log metadata when enabled", () => {
+    const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+    const loggy = CreateLoggy({
+      identifier: "test",
+      format: "json",
+      baggage: true,
+    });
+
+    baggage.with({ tenant: "acme", cohort: "beta" }, () => {
+      loggy.info("hello", { cohort: "override" });
+    });
+    loggy.info("outside");
+
+    const [inside, outside] = infoSpy.mock.calls.map(([line]) =>
+      JSON.parse(line),
+    );
+    expect(inside.metadata).toEqual({ tenant: "acme", cohort: "override" });
+    expect(outside.metadata).toBeUndefined();
+    expect(context.active().baggage).toBeUndefined();
+  });
+});
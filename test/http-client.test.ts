@@ -0,0 +1,194 @@
+import http, { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  context,
+  instrumentHttp,
+  LoggyTracer,
+  type SpanData,
+} from "../src/tracing";
+
+// Local server answering with the request headers it received
+const startServer = async () => {
+  const server: Server = createServer((req, res) => {
+    res.statusCode = req.url === "/fail" ? 500 : 200;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(req.headers));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+const httpGet = (url: string) =>
+  new Promise<{ status?: number; headers: Record<string, string> }>(
+    (resolve, reject) => {
+      http
+        .get(url, (res) => {
+          let body = "";
+          res.on("data", (chunk) => (body += chunk));
+          res.on("end", () =>
+            resolve({ status: res.statusCode, headers: JSON.parse(body) }),
+          );
+        })
+        .on("error", reject);
+    },
+  );
+
+describe("instrumentHttp", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let tracer: LoggyTracer;
+  let spans: SpanData[];
+  let uninstrument: () => void;
+
+  beforeEach(async () => {
+    server = await startServer();
+    tracer = new LoggyTracer({ serviceName: "client" });
+    spans = [];
+    tracer.addSpanProcessor({ onEnd: (span) => void spans.push(span) });
+  });
+
+  afterEach(async () => {
+    uninstrument?.();
+    await tracer.destroy();
+    await server.close();
+  });
+
+  test("creates client spans for http.get and injects traceparent", async () => {
+    uninstrument = instrumentHttp({ tracer });
+
+    const parent = tracer.startSpan("job");
+    const response = await context.with(parent, () =>
+      httpGet(`${server.url}/users?page=2`),
+    );
+    parent.end();
+
+    const client = spans.find((span) => span.spanKind === "client")!;
+    expect(client).toMatchObject({
+      operationName: "HTTP GET",
+      traceId: parent.context.traceId,
+      parentSpanId: parent.context.spanId,
+      status: "ok",
+      attributes: {
+        "http.method": "GET",
+        "http.url": `${server.url}/users?page=2`,
+        "http.scheme": "http",
+        "http.status_code": 200,
+      },
+    });
+    expect(client.endTime).toBeDefined();
+    expect(response.headers.traceparent).toBe(
+      `00-${client.traceId}-${client.spanId}-01`,
+    );
+  });
+
+  test("supports http.request with an options object", async () => {
+    uninstrument = instrumentHttp({ tracer });
+    const { port } = new URL(server.url);
+
+    const headers = await new Promise<Record<string, string>>((resolve) => {
+      const req = http.request(
+        { host: "127.0.0.1", port, path: "/orders", method: "post" },
+        (res) => {
+          let body = "";
+          res.on("data", (chunk) => (body += chunk));
+          res.on("end", () => resolve(JSON.parse(body)));
+        },
+      );
+      req.end("{}");
+    });
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({
+      "http.method": "POST",
+      "http.url": `${server.url}/orders`,
+    });
+    expect(headers.traceparent).toContain(spans[0].spanId);
+  });
+
+  test("discards unread responses of fire-and-forget requests", async () => {
+    uninstrument = instrumentHttp({ tracer });
+    const { port } = new URL(server.url);
+    const agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+
+    const closed = await Promise.all(
+      [1, 2, 3].map(
+        () =>
+          new Promise<void>((resolve) => {
+            const req = http.request({ host: "127.0.0.1", port, agent });
+            req.once("close", () => resolve());
+            req.end();
+          }),
+      ),
+    );
+    agent.destroy();
+
+    expect(closed).toHaveLength(3);
+    expect(spans).toHaveLength(3);
+  });
+
+  test("creates client spans for fetch and marks error responses", async () => {
+    uninstrument = instrumentHttp({ tracer });
+
+    const response = await fetch(`${server.url}/fail`, {
+      method: "PUT",
+      headers: { "x-request-id": "abc" },
+    });
+    const headers = await response.json();
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      spanKind: "client",
+      status: "error",
+      statusMessage: "HTTP 500",
+      attributes: { "http.method": "PUT", "http.status_code": 500 },
+    });
+    expect(headers["x-request-id"]).toBe("abc");
+    expect(headers.traceparent).toBe(
+      `00-${spans[0].traceId}-${spans[0].spanId}-01`,
+    );
+  });
+
+  test("records exceptions of failed requests", async () => {
+    uninstrument = instrumentHttp({ tracer });
+    const closed = await startServer();
+    await closed.close();
+
+    await expect(fetch(`${closed.url}/`)).rejects.toThrow();
+    await expect(httpGet(`${closed.url}/`)).rejects.toThrow();
+
+    expect(spans).toHaveLength(2);
+    for (const span of spans) {
+      expect(span.status).toBe("error");
+      expect(span.events?.[0].name).toBe("exception");
+    }
+  });
+
+  test("skips ignored URLs and suppressed requests", async () => {
+    uninstrument = instrumentHttp({ tracer, ignoreUrls: [/\/health$/] });
+
+    const ignored = await httpGet(`${server.url}/health`);
+    const suppressed = await context.suppress(() => httpGet(server.url));
+
+    expect(spans).toHaveLength(0);
+    expect(ignored.headers.traceparent).toBeUndefined();
+    expect(suppressed.headers.traceparent).toBeUndefined();
+  });
+
+  test("removes the instrumentation", async () => {
+    const originalRequest = http.request;
+    const originalFetch = globalThis.fetch;
+    uninstrument = instrumentHttp({ tracer });
+    expect(http.request).not.toBe(originalRequest);
+
+    uninstrument();
+    await httpGet(server.url);
+    await fetch(server.url);
+
+    expect(http.request).toBe(originalRequest);
+    expect(globalThis.fetch).toBe(originalFetch);
+    expect(spans).toHaveLength(0);
+  });
+});
@@ -1,4 +1,4 @@
-import { CreateLoggy } from "../src/index";
+import { CreateLoggy, LoggyTracer, context } from "../src/index";
 
 afterEach(() => {
   jest.restoreAllMocks();
@@ -136,3 +136,309 @@ test("logs only log messages and warn messages because of log level", () => {
   expect(logSpy).toHaveBeenCalledWith("[LOG] test: This is a log message");
   expect(warnSpy).toHaveBeenCalledWith("[WARN] test: This is a warn message");
 });
+
+describe("trace correlation", () => {
+  const mockFetch = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true });
+    global.fetch = mockFetch as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const sentLogs = () => JSON.parse(mockFetch.mock.calls[0][1].body).logs;
+
+  test("stamps traceId and spanId of the active span onto log entries", async () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const tracer = new LoggyTracer({ serviceName: "test-service" });
+    const loggy = CreateLoggy({
+      identifier: "test",
+      remote: { token: "test-token", flushInterval: 100000 },
+      tracer,
+    });
+
+    const span = tracer.startSpan("request");
+    context.with(span, () => loggy.info("inside span"));
+    loggy.info("outside span");
+    await loggy.destroy();
+
+    const [inside, outside] = sentLogs();
+    expect(inside.traceId).toBe(span.context.traceId);
+    expect(inside.spanId).toBe(span.context.spanId);
+    expect(outside.traceId).toBeUndefined();
+    expect(outside.spanId).toBeUndefined();
+  });
+
+  test("records warn and error logs as span events when enabled", () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const tracer = new LoggyTracer({ serviceName: "test-service" });
+    const loggy = CreateLoggy({
+      identifier: "test",
+      tracer,
+      spanEvents: true,
+    });
+
+    const span = tracer.startSpan("request");
+    context.with(span, () => {
+      loggy.info("not an event");
+      loggy.warn("slow query");
+    });
+
+    const events = span.toData().events;
+    expect(events).toHaveLength(1);
+    expect(events?.[0].name).toBe("log");
+    expect(events?.[0].attributes).toEqual({
+      "log.severity": "warn",
+      "log.message": "slow query",
+    });
+  });
+});
+
+describe("log levels", () => {
+  const originalLevel = process.env.LOGGY_LEVEL;
+
+  afterEach(() => {
+    if (originalLevel === undefined) delete process.env.LOGGY_LEVEL;
+    else process.env.LOGGY_LEVEL = originalLevel;
+  });
+
+  test("prints trace, debug and fatal messages", () => {
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const loggy = CreateLoggy({
+      identifier: "test",
+      color: false,
+      timestamp: false,
+    });
+
+    loggy.trace("This is a trace message");
+    loggy.debug("This is a debug message");
+    loggy.fatal("This is a fatal message");
+
+    expect(logSpy).toHaveBeenCalledWith(
+      "[TRACE] test: This is a trace message",
+    );
+    expect(logSpy).toHaveBeenCalledWith(
+      "[DEBUG] test: This is a debug message",
+    );
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[FATAL] test: This is a fatal message",
+    );
+  });
+
+  test("suppresses messages below the configured level", () => {
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const loggy = CreateLoggy({
+      identifier: "test",
+      color: false,
+      timestamp: false,
+      level: "warn",
+    });
+
+    loggy.debug("This is a debug message");
+    loggy.log("This is a log message");
+    loggy.info("This is an info message");
+    loggy.warn("This is a warn message");
+
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(infoSpy).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith("[WARN] test: This is a warn message");
+  });
+
+  test("LOGGY_LEVEL overrides the configured level", () => {
+    process.env.LOGGY_LEVEL = "ERROR";
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const loggy = CreateLoggy({
+      identifier: "test",
+      color: false,
+      timestamp: false,
+      level: "debug",
+    });
+
+    loggy.warn("This is a warn message");
+
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+
+  test.each(["verbose", "constructor", "__proto__"])(
+    "ignores unknown LOGGY_LEVEL value %s",
+    (value) => {
+      process.env.LOGGY_LEVEL = value;
+      const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+      const loggy = CreateLoggy({
+        identifier: "test",
+        color: false,
+        timestamp: false,
+        level: "info",
+      });
+
+      loggy.info("This is an info message");
+
+      expect(infoSpy).toHaveBeenCalledWith(
+        "[INFO] test: This is an info message",
+      );
+    },
+  );
+
+  test("applies separate console and remote thresholds", async () => {
+    const mockFetch = jest.fn().mockResolvedValue({ ok: true });
+    const originalFetch = global.fetch;
+    global.fetch = mockFetch as any;
+    const logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+
+    const loggy = CreateLoggy({
+      identifier: "test",
+      color: false,
+      timestamp: false,
+      consoleLevel: "debug",
+      remote: { token: "test-token", flushInterval: 100000, level: "info" },
+    });
+
+    loggy.trace("This is a trace message");
+    loggy.debug("This is a debug message");
+    loggy.info("This is an info message");
+    await loggy.destroy();
+    global.fetch = originalFetch;
+
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    expect(logSpy).toHaveBeenCalledWith(
+      "[DEBUG] test: This is a debug message",
+    );
+    const logs = JSON.parse(mockFetch.mock.calls[0][1].body).logs;
+    expect(logs.map((l: any) => l.level)).toEqual(["info"]);
+  });
+});
+
+describe("child loggers", () => {
+  test("merges bindings into printed metadata", () => {
+    const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+    const loggy = CreateLoggy({
+      identifier: "test",
+      color: false,
+      timestamp: false,
+      compact: true,
+    });
+
+    loggy.child({ requestId: "req-1" }).info("Handled", { status: 200 });
+
+    expect(infoSpy).toHaveBeenCalledWith(
+      "[INFO] test: Handled\n{ requestId: 'req-1', status: 200 }",
+    );
+  });
+
+  test("shares the parent's buffer and flush cycle", async () => {
+    const mockFetch = jest.fn().mockResolvedValue({ ok: true });
+    const originalFetch = global.fetch;
+    global.fetch = mockFetch as any;
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const setIntervalSpy = jest.spyOn(global, "setInterval");
+
+    const loggy = CreateLoggy({
+      identifier: "test",
+      remote: { token: "test-token", flushInterval: 100000 },
+    });
+    const child = loggy.child({ requestId: "req-1", userId: 42 });
+    const grandchild = child.child({ step: "auth" });
+
+    loggy.info("parent");
+    child.info("child", { tags: ["http"], metadata: { userId: 7 } });
+    grandchild.info("grandchild", "plain");
+    await loggy.destroy();
+    global.fetch = originalFetch;
+
+    expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const [parent, fromChild, fromGrandchild] = JSON.parse(
+      mockFetch.mock.calls[0][1].body,
+    ).logs;
+    expect(parent.metadata).toBeUndefined();
+    expect(fromChild.metadata).toEqual({ requestId: "req-1", userId: 7 });
+    expect(fromChild.tags).toEqual(["requestId:req-1", "userId:42", "http"]);
+    expect(fromGrandchild.metadata).toEqual({
+      requestId: "req-1",
+      userId: 42,
+      step: "auth",
+      value: "plain",
+    });
+  });
+});
+
+describe("output formats", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-01-02T03:04:05.000Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("writes one JSON line per entry", () => {
+    const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+    const loggy = CreateLoggy({ identifier: "test", format: "json" });
+
+    loggy.info("User logged in", {
+      metadata: { userId: 123 },
+      tags: ["auth"],
+    });
+
+    expect(infoSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(infoSpy.mock.calls[0][0])).toEqual({
+      level: "info",
+      identifier: "test",
+      timestamp: "2024-01-02T03:04:05.000Z",
+      message: "User logged in",
+      metadata: { userId: 123 },
+      tags: ["auth"],
+    });
+  });
+
+  test("survives circular metadata in JSON mode", () => {
+    const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+    const loggy = CreateLoggy({ identifier: "test", format: "json" });
+    const metadata: any = { name: "loop" };
+    metadata.self = metadata;
+
+    loggy.info("circular", metadata);
+
+    expect(JSON.parse(infoSpy.mock.calls[0][0]).metadata).toEqual({
+      name: "loop",
+      self: "[Circular]",
+    });
+  });
+
+  test("writes one logfmt line per entry", () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const loggy = CreateLoggy({ identifier: "test", format: "logfmt" });
+
+    loggy.warn("Disk almost full", {
+      metadata: { disk: { path: "/var", free: 0.05 } },
+      tags: ["infra", "disk"],
+    });
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      'level=warn identifier=test timestamp=2024-01-02T03:04:05.000Z message="Disk almost full" tags=infra,disk metadata.disk.path=/var metadata.disk.free=0.05',
+    );
+  });
+
+  test("includes trace IDs when correlated", () => {
+    const infoSpy = jest.spyOn(console, "info").mockImplementation(() => {});
+    const tracer = new LoggyTracer({ serviceName: "test-service" });
+    const loggy = CreateLoggy({ identifier: "test", format: "json", tracer });
+
+    tracer.startActiveSpan("request", (span) => {
+      loggy.info("inside span");
+      const line = JSON.parse(infoSpy.mock.calls[0][0]);
+      expect(line.traceId).toBe(span.context.traceId);
+      expect(line.spanId).toBe(span.context.spanId);
+    });
+  });
+});
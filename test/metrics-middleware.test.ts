@@ -0,0 +1,129 @@
+import { createServer, request, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { CreateMetrics } from "../src/metrics";
+import { createMetricsMiddleware } from "../src/metrics-middleware";
+
+// Serve requests through the middleware with just enough of Express's
+// request API; handlers set `req.route` as a matched Express route would
+const startApp = async (
+  middleware: ReturnType<typeof createMetricsMiddleware>,
+  handle: (req: any, res: ServerResponse) => void,
+) => {
+  const server = createServer((req: any, res) => {
+    req.path = req.url.split("?")[0];
+    req.baseUrl = "";
+    req.get = (name: string) => req.headers[name.toLowerCase()];
+    middleware(req, res, () => handle(req, res));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const send = (method: string, path: string, body?: string) =>
+    new Promise<void>((resolve, reject) => {
+      const req = request({ host: "127.0.0.1", port, method, path }, (res) => {
+        res.resume();
+        res.on("end", () => resolve());
+      });
+      req.on("error", reject);
+      req.end(body);
+    });
+
+  return {
+    send,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+describe("createMetricsMiddleware", () => {
+  test("records the route template, method, status and bytes", async () => {
+    const metrics = CreateMetrics({ disabled: true });
+    const app = await startApp(
+      createMetricsMiddleware({ metrics }),
+      (req, res) => {
+        req.route = { path: "/:id" };
+        req.baseUrl = "/users";
+        res.statusCode = 201;
+        res.write("hello ");
+        res.end("wörld");
+      },
+    );
+
+    await app.send("POST", "/users/42", '{"name":"Ada"}');
+    await app.send("POST", "/users/43", "{}");
+    await app.close();
+
+    const output = metrics.renderPrometheus();
+    expect(output).toContain(
+      'http_requests_total{method="POST",path="/users/:id"} 2',
+    );
+    expect(output).toContain(
+      'http_responses_total{method="POST",path="/users/:id",status_class="2xx"} 2',
+    );
+    expect(output).toContain(
+      'http_request_bytes_total{method="POST",path="/users/:id"} 16',
+    );
+    expect(output).toContain(
+      'http_response_bytes_total{method="POST",path="/users/:id"} 24',
+    );
+    expect(output).not.toContain("/users/42");
+  });
+
+  test("skips ignored routes", async () => {
+    const metrics = CreateMetrics({ disabled: true });
+    const app = await startApp(
+      createMetricsMiddleware({ metrics, ignoreRoutes: ["/health"] }),
+      (req, res) => {
+        req.route = { path: req.path };
+        res.end("ok");
+      },
+    );
+
+    await app.send("GET", "/health/live");
+    await app.send("GET", "/ready");
+    await app.close();
+
+    expect(metrics.getPendingCount()).toBe(1);
+    expect(metrics.renderPrometheus()).not.toContain("/health");
+  });
+
+  test("groups routes beyond maxRoutes under __other__", async () => {
+    const metrics = CreateMetrics({ disabled: true });
+    const app = await startApp(
+      createMetricsMiddleware({ metrics, maxRoutes: 2 }),
+      (req, res) => {
+        req.route = { path: req.path };
+        res.end();
+      },
+    );
+
+    for (const path of ["/a", "/b", "/c", "/d", "/a"]) {
+      await app.send("GET", path);
+    }
+    await app.close();
+
+    const output = metrics.renderPrometheus();
+    expect(output).toContain('http_requests_total{method="GET",path="/a"} 2');
+    expect(output).toContain('http_requests_total{method="GET",path="/b"} 1');
+    expect(output).toContain(
+      'http_requests_total{method="GET",path="__other__"} 2',
+    );
+  });
+
+  test("records unmatched requests without a path", async () => {
+    const metrics = CreateMetrics({ disabled: true });
+    const app = await startApp(
+      createMetricsMiddleware({ metrics }),
+      (req, res) => {
+        res.statusCode = 404;
+        res.end();
+      },
+    );
+
+    await app.send("GET", "/missing/123");
+    await app.close();
+
+    expect(metrics.renderPrometheus()).toContain(
+      'http_responses_total{method="GET",status_class="4xx"} 1',
+    );
+  });
+});
@@ -1,3 +1,5 @@
+import { createServer, get } from "node:http";
+import type { AddressInfo } from "node:net";
 import { CreateMetrics } from "../src/metrics";
 
 // Mock fetch
@@ -217,6 +219,330 @@ describe("CreateMetrics", () => {
 
       await metrics.destroy();
     });
+
+    it("should drop completed minutes when there is no transport", async () => {
+      jest.useFakeTimers({ now: new Date("2024-01-01T00:00:30.000Z") });
+      const metrics = CreateMetrics({});
+      const jobs = metrics.counter("jobs_processed");
+
+      for (let minute = 0; minute < 5; minute++) {
+        jest.setSystemTime(new Date(Date.UTC(2024, 0, 1, 0, minute, 30)));
+        metrics.record({ durationMs: 10, statusCode: 200 });
+        jobs.add();
+        await metrics.flush();
+      }
+      expect(metrics.getPendingCount()).toBe(1);
+
+      jest.setSystemTime(new Date("2024-01-01T00:06:30.000Z"));
+      await metrics.flush();
+      expect(metrics.getPendingCount()).toBe(0);
+
+      await metrics.destroy();
+      jest.useRealTimers();
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(metrics.renderPrometheus()).toContain("http_requests_total 5\n");
+    });
+  });
+
+  describe("latency histogram", () => {
+    const sentMetrics = (call: number) =>
+      JSON.parse(mockFetch.mock.calls[call][1].body).metrics;
+
+    it("should send a histogram with each bucket", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        histogramBuckets: [100, 10, 50],
+      });
+
+      metrics.record({ durationMs: 5 });
+      metrics.record({ durationMs: 10 });
+      metrics.record({ durationMs: 75 });
+      metrics.record({ durationMs: 500 });
+      await metrics.destroy();
+
+      expect(sentMetrics(0)[0].durationHistogram).toEqual({
+        bounds: [10, 50, 100],
+        counts: [2, 0, 1, 1],
+      });
+    });
+
+    it("should use the default buckets", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+
+      metrics.record({ durationMs: 42 });
+      await metrics.destroy();
+
+      const { bounds, counts } = sentMetrics(0)[0].durationHistogram;
+      expect(bounds).toEqual([
+        5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+      ]);
+      expect(counts[3]).toBe(1);
+    });
+
+    it("should merge histograms of buckets restored after a failed flush", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        flushInterval: 100000,
+        histogramBuckets: [10, 100],
+      });
+      const pastTime = new Date(Date.now() - 120000);
+
+      metrics.record({ durationMs: 5, timestamp: pastTime });
+      await metrics.flush();
+      metrics.record({ durationMs: 50, timestamp: pastTime });
+      metrics.record({ durationMs: 5, timestamp: pastTime });
+      await metrics.destroy();
+
+      const [bucket] = sentMetrics(1);
+      expect(bucket.requestCount).toBe(3);
+      expect(bucket.durationHistogram.counts).toEqual([2, 1, 0]);
+    });
+  });
+
+  describe("instruments", () => {
+    const sentInstruments = () =>
+      JSON.parse(mockFetch.mock.calls[0][1].body).instruments;
+
+    it("should aggregate counters per name and labels", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+
+      const emails = metrics.counter("jobs_processed", { queue: "emails" });
+      emails.add();
+      emails.add(2);
+      emails.add(-5);
+      metrics.counter("jobs_processed", { queue: "sms" }).add();
+      metrics.counter("jobs_processed", { queue: "emails" }).add();
+      await metrics.destroy();
+
+      expect(sentInstruments()).toEqual([
+        expect.objectContaining({
+          name: "jobs_processed",
+          type: "counter",
+          labels: { queue: "emails" },
+          value: 4,
+        }),
+        expect.objectContaining({
+          name: "jobs_processed",
+          labels: { queue: "sms" },
+          value: 1,
+        }),
+      ]);
+    });
+
+    it("should keep the last gauge value with min and max", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+
+      const depth = metrics.gauge("queue_depth");
+      depth.set(5);
+      depth.set(12);
+      depth.set(8);
+      await metrics.destroy();
+
+      expect(sentInstruments()[0]).toMatchObject({
+        name: "queue_depth",
+        type: "gauge",
+        value: 8,
+        min: 5,
+        max: 12,
+      });
+      expect(sentInstruments()[0].labels).toBeUndefined();
+    });
+
+    it("should read observable gauges when flushing", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+      let hits = 3;
+      const callback = jest.fn(() => hits / 4);
+
+      metrics.gauge("cache_hit_ratio", { cache: "users" }, callback);
+      hits = 2;
+      await metrics.destroy();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(sentInstruments()[0]).toMatchObject({
+        name: "cache_hit_ratio",
+        labels: { cache: "users" },
+        value: 0.5,
+      });
+    });
+
+    it("should record histograms with custom buckets", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+
+      const size = metrics.histogram("batch_size", {}, { buckets: [10, 100] });
+      size.record(5);
+      size.record(50);
+      size.record(500);
+      await metrics.destroy();
+
+      expect(sentInstruments()[0]).toMatchObject({
+        name: "batch_size",
+        type: "histogram",
+        count: 3,
+        sum: 555,
+        min: 5,
+        max: 500,
+        histogram: { bounds: [10, 100], counts: [1, 1, 1] },
+      });
+    });
+
+    it("should send completed minutes on flush and merge them back on failure", async () => {
+      jest.useFakeTimers({ now: new Date("2024-01-01T00:00:30.000Z") });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        flushInterval: 100000,
+      });
+      const jobs = metrics.counter("jobs_processed");
+
+      jobs.add(2);
+      await metrics.flush();
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      jest.setSystemTime(new Date("2024-01-01T00:01:30.000Z"));
+      await metrics.flush();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(new Date("2024-01-01T00:01:40.000Z"));
+      jobs.add(3);
+      await metrics.destroy();
+      jest.useRealTimers();
+
+      const { instruments } = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(instruments).toEqual([
+        expect.objectContaining({
+          timestamp: "2024-01-01T00:00:00.000Z",
+          value: 2,
+        }),
+        expect.objectContaining({
+          timestamp: "2024-01-01T00:01:00.000Z",
+          value: 3,
+        }),
+      ]);
+    });
+  });
+
+  describe("path normalization", () => {
+    const sentBatch = () => JSON.parse(mockFetch.mock.calls[0][1].body);
+    const sentPaths = () =>
+      sentBatch()
+        .metrics.map((bucket: { path?: string }) => bucket.path)
+        .sort();
+    const recordPaths = (
+      metrics: ReturnType<typeof CreateMetrics>,
+      paths: string[],
+    ) => {
+      for (const path of paths) {
+        metrics.startRequest()({ statusCode: 200, method: "GET", path });
+      }
+    };
+
+    it("should replace numeric, UUID and hex segments", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+
+      recordPaths(metrics, [
+        "/users/123",
+        "/users/456?tab=posts",
+        "/orders/3f2504e0-4f89-11d3-9a0c-0305e82c3301/items",
+        "/commits/0123456789abcdef0123",
+        "/files/v2",
+      ]);
+      await metrics.destroy();
+
+      expect(sentPaths()).toEqual([
+        "/commits/:hex",
+        "/files/v2",
+        "/orders/:uuid/items",
+        "/users/:id",
+      ]);
+      expect(
+        sentBatch().metrics.find((b: any) => b.path === "/users/:id"),
+      ).toMatchObject({ requestCount: 2 });
+    });
+
+    it("should record paths matching a route pattern as the pattern", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        paths: { routes: ["/users/:name/profile", "/assets/*"] },
+      });
+
+      recordPaths(metrics, [
+        "/users/ada/profile",
+        "/users/grace/profile/",
+        "/assets/css/app.css",
+        "/users/ada",
+      ]);
+      await metrics.destroy();
+
+      expect(sentPaths()).toEqual([
+        "/assets/*",
+        "/users/:name/profile",
+        "/users/ada",
+      ]);
+    });
+
+    it("should keep raw paths when replaceIds is false", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        paths: { replaceIds: false },
+      });
+
+      recordPaths(metrics, ["/users/123"]);
+      await metrics.destroy();
+
+      expect(sentPaths()).toEqual(["/users/123"]);
+    });
+
+    it("should collapse paths beyond maxPaths into __other__", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        paths: { maxPaths: 2 },
+      });
+
+      recordPaths(metrics, ["/a", "/b", "/c", "/d", "/a"]);
+      expect(metrics.getCollapsedCount()).toBe(2);
+      await metrics.destroy();
+
+      expect(sentPaths()).toEqual(["/a", "/b", "__other__"]);
+      expect(sentBatch().collapsedRequests).toBe(2);
+    });
+
+    it("should report collapsed requests once", async () => {
+      mockFetch.mockResolvedValue({ ok: true });
+      const metrics = CreateMetrics({
+        token: "test-token",
+        flushInterval: 100000,
+        paths: { maxPaths: 1 },
+      });
+      const pastTime = new Date(Date.now() - 120000);
+
+      metrics.startRequest()({ path: "/a" });
+      metrics.startRequest()({ path: "/b" });
+      // A past bucket so the flush sends a batch before destroy
+      metrics.record({ durationMs: 10, timestamp: pastTime });
+      await metrics.flush();
+      await metrics.destroy();
+
+      const [first, second] = mockFetch.mock.calls.map((call) =>
+        JSON.parse(call[1].body),
+      );
+      expect(first.collapsedRequests).toBe(1);
+      expect(second.collapsedRequests).toBeUndefined();
+    });
   });
 
   describe("destroy", () => {
@@ -239,4 +565,139 @@ describe("CreateMetrics", () => {
       expect(metrics.getPendingCount()).toBe(0);
     });
   });
+
+  describe("renderPrometheus", () => {
+    it("should render cumulative counters per method and path", () => {
+      const metrics = CreateMetrics({ disabled: true });
+
+      metrics.record({ durationMs: 20, statusCode: 200, bytesOut: 512 });
+      const end = metrics.startRequest();
+      mockTime = 300;
+      end({
+        statusCode: 404,
+        bytesIn: 64,
+        bytesOut: 128,
+        method: "get",
+        path: "/users/:id",
+      });
+
+      const output = metrics.renderPrometheus();
+
+      expect(output).toContain("# TYPE http_requests_total counter");
+      expect(output).toContain("http_requests_total 1\n");
+      expect(output).toContain(
+        'http_requests_total{method="GET",path="/users/:id"} 1',
+      );
+      expect(output).toContain('http_responses_total{status_class="2xx"} 1');
+      expect(output).toContain(
+        'http_responses_total{method="GET",path="/users/:id",status_class="4xx"} 1',
+      );
+      expect(output).toContain("http_response_bytes_total 512");
+      expect(output).toContain(
+        'http_request_bytes_total{method="GET",path="/users/:id"} 64',
+      );
+    });
+
+    it("should render duration histograms in seconds", () => {
+      const metrics = CreateMetrics({
+        disabled: true,
+        prometheus: { buckets: [0.1, 0.5], prefix: "app_" },
+      });
+
+      metrics.record({ durationMs: 50 });
+      metrics.record({ durationMs: 200 });
+      metrics.record({ durationMs: 2000 });
+
+      const output = metrics.renderPrometheus();
+
+      expect(output).toContain(
+        "# TYPE app_http_request_duration_seconds histogram",
+      );
+      expect(output).toContain(
+        'app_http_request_duration_seconds_bucket{le="0.1"} 1',
+      );
+      expect(output).toContain(
+        'app_http_request_duration_seconds_bucket{le="0.5"} 2',
+      );
+      expect(output).toContain(
+        'app_http_request_duration_seconds_bucket{le="+Inf"} 3',
+      );
+      expect(output).toContain("app_http_request_duration_seconds_sum 2.25");
+      expect(output).toContain("app_http_request_duration_seconds_count 3");
+    });
+
+    it("should keep counting after buckets are flushed", async () => {
+      mockFetch.mockResolvedValue({ ok: true });
+      const metrics = CreateMetrics({ token: "test-token" });
+
+      metrics.record({ durationMs: 10 });
+      await metrics.destroy();
+      metrics.record({ durationMs: 10 });
+
+      expect(metrics.renderPrometheus()).toContain("http_requests_total 2");
+    });
+
+    it("should escape label values", () => {
+      const metrics = CreateMetrics({ disabled: true });
+      const end = metrics.startRequest();
+      end({ path: '/say"hi"\\' });
+
+      expect(metrics.renderPrometheus()).toContain(
+        'http_requests_total{path="/say\\"hi\\"\\\\"} 1',
+      );
+    });
+  });
+
+  describe("prometheusHandler", () => {
+    const request = (port: number, path: string) =>
+      new Promise<{ status?: number; type?: string; body: string }>(
+        (resolve, reject) => {
+          get({ port, path, host: "127.0.0.1" }, (res) => {
+            let body = "";
+            res.on("data", (chunk) => (body += chunk));
+            res.on("end", () =>
+              resolve({
+                status: res.statusCode,
+                type: res.headers["content-type"],
+                body,
+              }),
+            );
+          }).on("error", reject);
+        },
+      );
+
+    it("should serve metrics at /metrics", async () => {
+      const metrics = CreateMetrics({ disabled: true });
+      metrics.record({ durationMs: 10, statusCode: 200 });
+      const server = createServer(metrics.prometheusHandler());
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+      const { port } = server.address() as AddressInfo;
+
+      const ok = await request(port, "/metrics");
+      const missing = await request(port, "/other");
+      await new Promise((resolve) => server.close(resolve));
+
+      expect(ok.status).toBe(200);
+      expect(ok.type).toBe("text/plain; version=0.0.4; charset=utf-8");
+      expect(ok.body).toBe(metrics.renderPrometheus());
+      expect(missing.status).toBe(404);
+    });
+
+    it("should pass other paths to next() as middleware", () => {
+      const metrics = CreateMetrics({ disabled: true });
+      const next = jest.fn();
+      const res = { end: jest.fn() };
+
+      metrics.prometheusHandler()(
+        { url: "/users", method: "GET" } as any,
+        res as any,
+        next,
+      );
+
+      expect(next).toHaveBeenCalled();
+      expect(res.end).not.toHaveBeenCalled();
+    });
+  });
 });
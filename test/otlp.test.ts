@@ -0,0 +1,221 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { CreateLoggy } from "../src/index";
+import {
+  OtlpLogExporter,
+  OtlpTraceExporter,
+  toOtlpLogsRequest,
+  toOtlpTraceRequest,
+} from "../src/otlp";
+import { LoggyTracer } from "../src/tracing";
+
+// Minimal OTLP/HTTP collector recording request bodies
+const startCollector = async (status = 200, path = "/v1/traces") => {
+  const requests: Array<{ url?: string; headers: any; body: any }> = [];
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({
+        url: req.url,
+        headers: req.headers,
+        body: JSON.parse(body),
+      });
+      res.statusCode = status;
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    requests,
+    url: `http://127.0.0.1:${port}${path}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+describe("toOtlpTraceRequest", () => {
+  test("converts spans to resource and scope spans", () => {
+    const tracer = new LoggyTracer({
+      serviceName: "checkout",
+      serviceVersion: "1.2.0",
+    });
+    const start = new Date("2024-01-02T03:04:05.123Z");
+    const span = tracer.startSpan("GET /cart", {
+      kind: "server",
+      startTime: start,
+      attributes: {
+        "http.status_code": 500,
+        "http.route": "/cart",
+        ratio: 0.5,
+      },
+    });
+    span.addEvent("retry", { attempt: 2 });
+    span.setStatus("error", "boom");
+    span.end(new Date(start.getTime() + 250));
+
+    const request = toOtlpTraceRequest([span.toData()]);
+
+    expect(request.resourceSpans).toHaveLength(1);
+    const [resourceSpans] = request.resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "checkout" } },
+      { key: "service.version", value: { stringValue: "1.2.0" } },
+    ]);
+    const [otlpSpan] = resourceSpans.scopeSpans[0].spans;
+    expect(otlpSpan).toMatchObject({
+      traceId: span.context.traceId,
+      spanId: span.context.spanId,
+      name: "GET /cart",
+      kind: 2,
+      startTimeUnixNano: "1704164645123000000",
+      endTimeUnixNano: "1704164645373000000",
+      status: { code: 2, message: "boom" },
+    });
+    expect(otlpSpan.parentSpanId).toBeUndefined();
+    expect(otlpSpan.attributes).toEqual([
+      { key: "http.status_code", value: { intValue: "500" } },
+      { key: "http.route", value: { stringValue: "/cart" } },
+      { key: "ratio", value: { doubleValue: 0.5 } },
+    ]);
+    expect(otlpSpan.events[0]).toMatchObject({
+      name: "retry",
+      attributes: [{ key: "attempt", value: { intValue: "2" } }],
+    });
+  });
+
+  test("groups spans by resource", () => {
+    const a = new LoggyTracer({ serviceName: "a" }).startSpan("one");
+    const b = new LoggyTracer({ serviceName: "b" }).startSpan("two");
+    const child = new LoggyTracer({ serviceName: "a" }).startSpan("three", {
+      parent: a.context,
+    });
+    [a, b, child].forEach((span) => span.end());
+
+    const request = toOtlpTraceRequest(
+      [a, b, child].map((span) => span.toData()),
+    );
+
+    expect(request.resourceSpans).toHaveLength(2);
+    const spans = request.resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((span) => span.name)).toEqual(["one", "three"]);
+    expect(spans[1].parentSpanId).toBe(a.context.spanId);
+  });
+});
+
+describe("OtlpTraceExporter", () => {
+  test("posts spans to an OTLP/HTTP collector", async () => {
+    const collector = await startCollector();
+    const tracer = new LoggyTracer({
+      serviceName: "checkout",
+      transport: new OtlpTraceExporter({
+        url: collector.url,
+        headers: { authorization: "Bearer secret" },
+      }),
+    });
+
+    tracer.startSpan("work").end();
+    await tracer.destroy();
+    await collector.close();
+
+    expect(collector.requests).toHaveLength(1);
+    const [request] = collector.requests;
+    expect(request.url).toBe("/v1/traces");
+    expect(request.headers["content-type"]).toBe("application/json");
+    expect(request.headers.authorization).toBe("Bearer secret");
+    expect(request.body.resourceSpans[0].scopeSpans[0].spans[0].name).toBe(
+      "work",
+    );
+  });
+
+  test("rejects when the collector fails", async () => {
+    const collector = await startCollector(503);
+    const exporter = new OtlpTraceExporter({ url: collector.url });
+
+    await expect(exporter.send({ spans: [] })).rejects.toThrow("HTTP 503");
+    await collector.close();
+  });
+});
+
+describe("toOtlpLogsRequest", () => {
+  test("maps levels, body, attributes and trace IDs", () => {
+    const request = toOtlpLogsRequest(
+      [
+        {
+          level: "warn",
+          message: "Disk almost full",
+          metadata: { disk: "/var", free: 0.05 },
+          tags: ["infra"],
+          timestamp: "2024-01-02T03:04:05.123Z",
+          traceId: "0af7651916cd43dd8448eb211c80319c",
+          spanId: "b7ad6b7169203331",
+        },
+        {
+          level: "fatal",
+          message: "Out of memory",
+          metadata: "heap",
+          timestamp: "2024-01-02T03:04:06.000Z",
+        },
+      ],
+      { "service.name": "worker" },
+    );
+
+    const [resourceLogs] = request.resourceLogs;
+    expect(resourceLogs.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "worker" } },
+    ]);
+    const [warn, fatal] = resourceLogs.scopeLogs[0].logRecords;
+    expect(warn).toEqual({
+      timeUnixNano: "1704164645123000000",
+      observedTimeUnixNano: "1704164645123000000",
+      severityNumber: 13,
+      severityText: "WARN",
+      body: { stringValue: "Disk almost full" },
+      attributes: [
+        { key: "disk", value: { stringValue: "/var" } },
+        { key: "free", value: { doubleValue: 0.05 } },
+        {
+          key: "tags",
+          value: { arrayValue: { values: [{ stringValue: "infra" }] } },
+        },
+      ],
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      spanId: "b7ad6b7169203331",
+    });
+    expect(fatal.severityNumber).toBe(21);
+    expect(fatal.attributes).toEqual([
+      { key: "metadata", value: { stringValue: "heap" } },
+    ]);
+  });
+});
+
+describe("OtlpLogExporter", () => {
+  test("posts CreateLoggy entries to an OTLP/HTTP collector", async () => {
+    const collector = await startCollector(200, "/v1/logs");
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const loggy = CreateLoggy({
+      identifier: "worker",
+      transport: new OtlpLogExporter({
+        url: collector.url,
+        serviceName: "worker",
+        resourceAttributes: { "deployment.environment": "test" },
+      }),
+    });
+
+    loggy.error("Job failed", { metadata: { jobId: 7 } });
+    await loggy.destroy();
+    await collector.close();
+
+    expect(collector.requests).toHaveLength(1);
+    const [resourceLogs] = collector.requests[0].body.resourceLogs;
+    expect(resourceLogs.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "worker" } },
+      { key: "deployment.environment", value: { stringValue: "test" } },
+    ]);
+    expect(resourceLogs.scopeLogs[0].logRecords[0]).toMatchObject({
+      severityNumber: 17,
+      body: { stringValue: "Job failed" },
+      attributes: [{ key: "jobId", value: { intValue: "7" } }],
+    });
+  });
+});
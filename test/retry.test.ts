@@ -0,0 +1,179 @@
+import { BoundedBuffer } from "../src/buffer";
+import { CreateLoggy, type LogBatch } from "../src/index";
+import { Backoff } from "../src/retry";
+import { LoggyTracer, type SpanBatch } from "../src/tracing";
+import { MemoryTransport } from "../src/transports";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("Backoff", () => {
+  test("delays attempts exponentially after failures", () => {
+    const backoff = new Backoff({
+      initialDelayMs: 100,
+      multiplier: 2,
+      jitter: 0,
+      maxAttempts: 10,
+    });
+
+    expect(backoff.canAttempt(0)).toBe(true);
+    backoff.onFailure(0);
+    expect(backoff.canAttempt(99)).toBe(false);
+    expect(backoff.canAttempt(100)).toBe(true);
+    backoff.onFailure(100);
+    expect(backoff.canAttempt(299)).toBe(false);
+    expect(backoff.canAttempt(300)).toBe(true);
+  });
+
+  test("caps the delay at maxDelayMs", () => {
+    const backoff = new Backoff({
+      initialDelayMs: 1000,
+      maxDelayMs: 1500,
+      jitter: 0,
+      maxAttempts: 10,
+    });
+
+    backoff.onFailure(0);
+    backoff.onFailure(0);
+    backoff.onFailure(0);
+    expect(backoff.canAttempt(1500)).toBe(true);
+  });
+
+  test("keeps jittered delays within the configured spread", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    const backoff = new Backoff({ initialDelayMs: 1000, jitter: 0.5 });
+
+    backoff.onFailure(0);
+    expect(backoff.canAttempt(499)).toBe(false);
+    expect(backoff.canAttempt(500)).toBe(true);
+  });
+
+  test("reports exhaustion after maxAttempts and resets", () => {
+    const backoff = new Backoff({ maxAttempts: 2, jitter: 0 });
+
+    expect(backoff.onFailure(0)).toBe(true);
+    expect(backoff.onFailure(0)).toBe(false);
+    expect(backoff.attempts).toBe(0);
+    expect(backoff.canAttempt(0)).toBe(true);
+  });
+});
+
+describe("BoundedBuffer", () => {
+  test("drops the oldest entries when full", () => {
+    const buffer = new BoundedBuffer<number>({ maxSize: 2 });
+
+    buffer.push(1);
+    buffer.push(2);
+    buffer.push(3);
+
+    expect(buffer.drain()).toEqual([2, 3]);
+    expect(buffer.dropped).toBe(1);
+  });
+
+  test("drops the newest entries when configured", () => {
+    const buffer = new BoundedBuffer<number>({
+      maxSize: 2,
+      overflow: "drop-newest",
+    });
+
+    buffer.push(1);
+    buffer.push(2);
+    buffer.push(3);
+
+    expect(buffer.drain()).toEqual([1, 2]);
+    expect(buffer.dropped).toBe(1);
+  });
+
+  test("requeues failed batches ahead of newer entries within the limit", () => {
+    const oldest = new BoundedBuffer<number>({ maxSize: 3 });
+    oldest.push(3);
+    oldest.push(4);
+    oldest.requeue([1, 2]);
+    expect(oldest.drain()).toEqual([2, 3, 4]);
+    expect(oldest.dropped).toBe(1);
+
+    const newest = new BoundedBuffer<number>({
+      maxSize: 3,
+      overflow: "drop-newest",
+    });
+    newest.push(3);
+    newest.push(4);
+    newest.requeue([1, 2]);
+    expect(newest.drain()).toEqual([1, 2, 3]);
+    expect(newest.dropped).toBe(1);
+  });
+});
+
+describe("remote flush retries", () => {
+  test("CreateLoggy waits out the backoff and drops exhausted batches", async () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const transport = new MemoryTransport<LogBatch>();
+    const send = jest
+      .spyOn(transport, "send")
+      .mockRejectedValue(new Error("offline"));
+    const setIntervalSpy = jest.spyOn(global, "setInterval");
+    const loggy = CreateLoggy({
+      identifier: "test",
+      transport,
+      retry: { maxAttempts: 2, initialDelayMs: 60000 },
+    });
+    const timerFlush = setIntervalSpy.mock.calls[0][0] as () => Promise<void>;
+
+    loggy.info("hello");
+    await timerFlush();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // Still backing off, so the timer does not hit the transport again
+    await timerFlush();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(loggy.getDroppedCount()).toBe(0);
+
+    // A manual flush ignores the backoff; the second failure drops the batch
+    await loggy.flush();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(loggy.getDroppedCount()).toBe(1);
+
+    await loggy.destroy();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  test("CreateLoggy counts entries dropped by a full buffer", async () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const transport = new MemoryTransport<LogBatch>();
+    const loggy = CreateLoggy({
+      identifier: "test",
+      transport,
+      buffer: { maxSize: 2, overflow: "drop-newest" },
+    });
+
+    loggy.info("one");
+    loggy.info("two");
+    loggy.child({ requestId: "r" }).info("three");
+    await loggy.destroy();
+
+    expect(loggy.getDroppedCount()).toBe(1);
+    expect(transport.batches[0].logs.map((l) => l.message)).toEqual([
+      "one",
+      "two",
+    ]);
+  });
+
+  test("LoggyTracer bounds its span buffer", async () => {
+    const transport = new MemoryTransport<SpanBatch>();
+    const tracer = new LoggyTracer({
+      serviceName: "test-service",
+      transport,
+      buffer: { maxSize: 1 },
+    });
+
+    tracer.startSpan("first").end();
+    tracer.startSpan("second").end();
+    await tracer.destroy();
+
+    expect(tracer.getDroppedCount()).toBe(1);
+    expect(transport.batches[0].spans.map((s) => s.operationName)).toEqual([
+      "second",
+    ]);
+  });
+});
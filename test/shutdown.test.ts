@@ -0,0 +1,129 @@
+import {
+  CreateLoggy,
+  CreateMetrics,
+  enableGracefulShutdown,
+  shutdown,
+  type LogBatch,
+  type MetricBatch,
+} from "../src/index";
+import { LoggyTracer, type SpanBatch } from "../src/tracing";
+import { MemoryTransport, type Transport } from "../src/transports";
+
+describe("shutdown", () => {
+  test("flushes every logger, tracer and metrics instance", async () => {
+    const logs = new MemoryTransport<LogBatch>();
+    const spans = new MemoryTransport<SpanBatch>();
+    const metricBatches = new MemoryTransport<MetricBatch>();
+    jest.spyOn(console, "info").mockImplementation(() => {});
+
+    const loggy = CreateLoggy({ identifier: "test", transport: logs });
+    const tracer = new LoggyTracer({
+      serviceName: "test-service",
+      transport: spans,
+    });
+    const metrics = CreateMetrics({ transport: metricBatches });
+
+    loggy.info("hello");
+    tracer.startSpan("work").end();
+    metrics.record({ durationMs: 10, statusCode: 200 });
+
+    await expect(shutdown()).resolves.toBe(true);
+
+    expect(logs.batches).toHaveLength(1);
+    expect(spans.batches).toHaveLength(1);
+    expect(metricBatches.batches).toHaveLength(1);
+    expect(logs.closed && spans.closed && metricBatches.closed).toBe(true);
+  });
+
+  test("skips instances that were already destroyed", async () => {
+    const transport = new MemoryTransport<LogBatch>();
+    const loggy = CreateLoggy({ identifier: "test", transport });
+    await loggy.destroy();
+    const close = jest.spyOn(transport, "close");
+
+    await shutdown();
+
+    expect(close).not.toHaveBeenCalled();
+  });
+
+  test("gives up after the deadline", async () => {
+    const hanging: Transport<LogBatch> = {
+      send: () => new Promise(() => {}),
+    };
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const loggy = CreateLoggy({ identifier: "test", transport: hanging });
+    loggy.info("stuck");
+
+    await expect(shutdown(50)).resolves.toBe(false);
+  });
+});
+
+describe("enableGracefulShutdown", () => {
+  let exitSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    exitSpy = jest.spyOn(process, "exit").mockImplementation((() => {}) as any);
+  });
+
+  afterEach(() => {
+    exitSpy.mockRestore();
+  });
+
+  test("flushes and exits on SIGTERM", async () => {
+    const transport = new MemoryTransport<LogBatch>();
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const loggy = CreateLoggy({ identifier: "test", transport });
+    loggy.info("before shutdown");
+
+    const disable = enableGracefulShutdown({ signals: ["SIGTERM"] });
+    process.emit("SIGTERM", "SIGTERM");
+    await new Promise((resolve) => setImmediate(resolve));
+    disable();
+
+    expect(transport.batches).toHaveLength(1);
+    expect(exitSpy).toHaveBeenCalledWith(143);
+  });
+
+  test("leaves exiting to other signal listeners", async () => {
+    const other = jest.fn();
+    process.on("SIGTERM", other);
+    CreateLoggy({ identifier: "test", transport: new MemoryTransport() });
+
+    const disable = enableGracefulShutdown({ signals: ["SIGTERM"] });
+    process.emit("SIGTERM", "SIGTERM");
+    await new Promise((resolve) => setImmediate(resolve));
+    disable();
+    process.removeListener("SIGTERM", other);
+
+    expect(other).toHaveBeenCalled();
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  test("flushes every instance on beforeExit and removes its handlers when disabled", async () => {
+    const logs = new MemoryTransport<LogBatch>();
+    const spans = new MemoryTransport<SpanBatch>();
+    const metricBatches = new MemoryTransport<MetricBatch>();
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const before = process.listenerCount("beforeExit");
+
+    const loggy = CreateLoggy({ identifier: "test", transport: logs });
+    const tracer = new LoggyTracer({
+      serviceName: "test-service",
+      transport: spans,
+    });
+    const metrics = CreateMetrics({ transport: metricBatches });
+    loggy.info("hello");
+    tracer.startSpan("work").end();
+    metrics.record({ durationMs: 10, statusCode: 200 });
+
+    const disable = enableGracefulShutdown();
+    process.emit("beforeExit", 0);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    disable();
+
+    expect(logs.batches).toHaveLength(1);
+    expect(spans.batches).toHaveLength(1);
+    expect(metricBatches.batches).toHaveLength(1);
+    expect(process.listenerCount("beforeExit")).toBe(before);
+  });
+});
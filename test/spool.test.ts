@@ -0,0 +1,203 @@
+import {
+  appendFileSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CreateLoggy, type LogBatch } from "../src/index";
+import { DiskSpool } from "../src/spool";
+import { LoggyTracer, type SpanBatch } from "../src/tracing";
+import { MemoryTransport } from "../src/transports";
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "loggy-spool-"));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+const replayAll = async <T>(spool: DiskSpool<T>): Promise<T[]> => {
+  const sent: T[] = [];
+  await spool.replay(async (payload) => {
+    sent.push(payload);
+  });
+  return sent;
+};
+
+describe("DiskSpool", () => {
+  test("replays sealed segments and deletes them", async () => {
+    const writer = new DiskSpool<{ n: number }>("logs", { directory });
+    writer.write({ n: 1 });
+    writer.write({ n: 2 });
+    writer.close();
+
+    const reader = new DiskSpool<{ n: number }>("logs", { directory });
+    expect(await replayAll(reader)).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(readdirSync(directory)).toEqual([]);
+  });
+
+  test("only replays segments with its own name", async () => {
+    const logs = new DiskSpool("logs", { directory });
+    logs.write({ logs: [] });
+    logs.close();
+
+    const spans = new DiskSpool("spans", { directory });
+    expect(await replayAll(spans)).toEqual([]);
+    expect(readdirSync(directory)).toHaveLength(1);
+  });
+
+  test("skips open segments of running processes", async () => {
+    const writer = new DiskSpool("logs", { directory });
+    writer.write({ n: 1 });
+
+    expect(await replayAll(new DiskSpool("logs", { directory }))).toEqual([]);
+    writer.close();
+  });
+
+  test("recovers open segments of processes that are gone", async () => {
+    writeFileSync(
+      join(directory, "logs-1-999999999.0a1b2c3d-0.open"),
+      '{"n":1}\n',
+    );
+
+    const reader = new DiskSpool("logs", { directory });
+    expect(await replayAll(reader)).toEqual([{ n: 1 }]);
+  });
+
+  test("recovers segments left by an earlier run with the same pid", async () => {
+    const owner = `${process.pid}.0a1b2c3d`;
+    writeFileSync(join(directory, `logs-1-${owner}-0.open`), '{"n":1}\n');
+    writeFileSync(
+      join(directory, `logs-2-${owner}-1.replay-${owner}`),
+      '{"n":2}\n',
+    );
+
+    const reader = new DiskSpool("logs", { directory });
+    expect(await replayAll(reader)).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(readdirSync(directory)).toEqual([]);
+  });
+
+  test("deletes orphaned segments to stay under maxBytes", () => {
+    const line = JSON.stringify({ n: 1 }).length + 1;
+    const orphan = `logs-1-${process.pid}.0a1b2c3d-0.open`;
+    writeFileSync(join(directory, orphan), '{"n":1}\n');
+
+    const spool = new DiskSpool("logs", { directory, maxBytes: line });
+    expect(spool.write({ n: 2 })).toBe(true);
+    expect(readdirSync(directory)).not.toContain(orphan);
+    spool.close();
+  });
+
+  test("skips a torn line left by a crash", async () => {
+    const writer = new DiskSpool("logs", { directory });
+    writer.write({ n: 1 });
+    writer.close();
+    const [segment] = readdirSync(directory);
+    appendFileSync(join(directory, segment), '{"n":');
+
+    expect(await replayAll(new DiskSpool("logs", { directory }))).toEqual([
+      { n: 1 },
+    ]);
+  });
+
+  test("keeps undelivered batches when replay fails", async () => {
+    const writer = new DiskSpool<{ n: number }>("logs", { directory });
+    writer.write({ n: 1 });
+    writer.write({ n: 2 });
+    writer.close();
+
+    const failing = new DiskSpool<{ n: number }>("logs", { directory });
+    await failing.replay(async (payload) => {
+      if (payload.n === 2) throw new Error("offline");
+    });
+
+    expect(await replayAll(new DiskSpool("logs", { directory }))).toEqual([
+      { n: 2 },
+    ]);
+  });
+
+  test("deletes the oldest segments to stay under maxBytes", async () => {
+    const line = JSON.stringify({ n: 1 }).length + 1;
+    const spool = new DiskSpool<{ n: number }>("logs", {
+      directory,
+      maxSegmentBytes: line,
+      maxBytes: line * 2,
+    });
+
+    spool.write({ n: 1 });
+    spool.write({ n: 2 });
+    spool.write({ n: 3 });
+    spool.close();
+
+    expect(await replayAll(new DiskSpool("logs", { directory }))).toEqual([
+      { n: 2 },
+      { n: 3 },
+    ]);
+  });
+
+  test("rejects batches larger than maxBytes", () => {
+    const spool = new DiskSpool("logs", { directory, maxBytes: 4 });
+    expect(spool.write({ n: 1 })).toBe(false);
+  });
+});
+
+describe("spooling undelivered batches", () => {
+  test("CreateLoggy spools logs it could not deliver and replays them", async () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const offline = new MemoryTransport<LogBatch>();
+    jest.spyOn(offline, "send").mockRejectedValue(new Error("offline"));
+
+    const first = CreateLoggy({
+      identifier: "test",
+      transport: offline,
+      spool: { directory },
+    });
+    first.info("while offline");
+    await first.destroy();
+    expect(first.getDroppedCount()).toBe(0);
+
+    const online = new MemoryTransport<LogBatch>();
+    const second = CreateLoggy({
+      identifier: "test",
+      transport: online,
+      spool: { directory },
+    });
+    await second.destroy();
+
+    expect(online.batches[0].logs[0].message).toBe("while offline");
+    expect(readdirSync(directory)).toEqual([]);
+  });
+
+  test("LoggyTracer spools spans when retries run out", async () => {
+    const offline = new MemoryTransport<SpanBatch>();
+    jest.spyOn(offline, "send").mockRejectedValue(new Error("offline"));
+
+    const first = new LoggyTracer({
+      serviceName: "test-service",
+      transport: offline,
+      retry: { maxAttempts: 1 },
+      spool: { directory },
+    });
+    first.startSpan("op").end();
+    await first.flush();
+    expect(first.getDroppedCount()).toBe(0);
+    await first.destroy();
+
+    const online = new MemoryTransport<SpanBatch>();
+    const second = new LoggyTracer({
+      serviceName: "test-service",
+      transport: online,
+      spool: { directory },
+    });
+    await second.destroy();
+
+    expect(online.batches[0].spans[0].operationName).toBe("op");
+  });
+});
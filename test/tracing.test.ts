@@ -1,16 +1,35 @@
+import { MemoryTransport } from "../src/transports";
 import {
+  AlwaysOffSampler,
+  AlwaysOnSampler,
+  B3MultiPropagator,
+  B3SinglePropagator,
+  BatchSpanProcessor,
+  CompositePropagator,
   CreateTracer,
   LoggySpan,
   LoggyTracer,
+  ParentBasedSampler,
+  SimpleSpanProcessor,
+  TraceIdRatioSampler,
+  context,
   generateSpanId,
   generateTraceId,
+  JaegerPropagator,
+  TailSampler,
+  W3CTraceContextPropagator,
   withSpan,
+  type SpanBatch,
+  type SpanData,
+  type TailSamplingOptions,
 } from "../src/tracing";
 import {
   extractContext,
   formatTraceparent,
   injectContext,
   parseTraceparent,
+  parseTracestate,
+  setTracestateEntry,
 } from "../src/tracing/context";
 
 describe("Tracing", () => {
@@ -97,6 +116,75 @@ describe("Tracing", () => {
       const result = extractContext({});
       expect(result).toBeNull();
     });
+
+    test("extractContext carries tracestate with a valid traceparent", () => {
+      const result = extractContext({
+        traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+        tracestate: "rojo=00f067aa0ba902b7, congo=t61rcWkgMzE",
+      });
+
+      expect(result?.traceState).toBe(
+        "rojo=00f067aa0ba902b7,congo=t61rcWkgMzE",
+      );
+      expect(extractContext({ tracestate: "rojo=1" })).toBeNull();
+    });
+
+    test("injectContext forwards the span context's tracestate", () => {
+      const carrier = injectContext(
+        {
+          traceId: "0af7651916cd43dd8448eb211c80319c",
+          spanId: "b7ad6b7169203331",
+          traceFlags: 1,
+          traceState: "rojo=00f067aa0ba902b7",
+        },
+        {},
+      );
+
+      expect(carrier.tracestate).toBe("rojo=00f067aa0ba902b7");
+    });
+
+    test("parseTracestate drops invalid and duplicate entries", () => {
+      const state = parseTracestate([
+        "rojo=1,Upper=2,=3,novalue,bad=a=b",
+        "tenant@vendor=4,rojo=5, ,trailing=x ",
+      ]);
+
+      expect(Array.from(state)).toEqual([
+        ["rojo", "1"],
+        ["tenant@vendor", "4"],
+        ["trailing", "x"],
+      ]);
+    });
+
+    test("parseTracestate keeps at most 32 entries", () => {
+      const header = Array.from({ length: 40 }, (_, i) => `k${i}=v`).join(",");
+
+      const state = parseTracestate(header);
+
+      expect(state.size).toBe(32);
+      expect(state.has("k31")).toBe(true);
+      expect(state.has("k32")).toBe(false);
+    });
+
+    test("setTracestateEntry moves the entry to the front", () => {
+      const state = parseTracestate("rojo=1,congo=2,loggy=3");
+
+      const updated = setTracestateEntry(state, "loggy", "4");
+
+      expect(Array.from(updated.keys())).toEqual(["loggy", "rojo", "congo"]);
+      expect(updated.get("loggy")).toBe("4");
+      expect(setTracestateEntry(state, "loggy", "a,b")).toBe(state);
+    });
+
+    test("setTracestateEntry drops the right-most entry when full", () => {
+      const header = Array.from({ length: 32 }, (_, i) => `k${i}=v`).join(",");
+
+      const updated = setTracestateEntry(parseTracestate(header), "loggy", "1");
+
+      expect(updated.size).toBe(32);
+      expect(updated.has("k31")).toBe(false);
+      expect(updated.keys().next().value).toBe("loggy");
+    });
   });
 
   describe("LoggySpan", () => {
@@ -258,11 +346,42 @@ describe("Tracing", () => {
         serviceName: "test-service",
       });
 
-      const span = tracer.startSpan("test");
+      tracer.startActiveSpan("test", (span) => {
+        const carrier = tracer.inject({});
+
+        expect(carrier.traceparent).toBeDefined();
+        expect(carrier.traceparent).toContain(span.context.traceId);
+        expect(carrier.traceparent).toContain(span.context.spanId);
+      });
+    });
+
+    test("propagates upstream tracestate with Loggy's entry in front", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+      });
+      const parent = tracer.extract({
+        traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+        tracestate: "rojo=00f067aa0ba902b7,loggy=0000000000000001",
+      });
+
+      const span = tracer.startSpan("handle", { parent });
+      const carrier = context.with(span, () => tracer.inject({}));
+
+      const expected = `loggy=${span.context.spanId},rojo=00f067aa0ba902b7`;
+      expect(span.context.traceState).toBe(expected);
+      expect(span.toData().traceState).toBe(expected);
+      expect(carrier.tracestate).toBe(expected);
+    });
+
+    test("inject leaves carrier untouched without an active span", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+      });
+
+      tracer.startSpan("not-active");
       const carrier = tracer.inject({});
 
-      expect(carrier.traceparent).toBeDefined();
-      expect(carrier.traceparent).toContain(span.context.traceId);
+      expect(carrier.traceparent).toBeUndefined();
     });
 
     test("extract parses trace context from carrier", () => {
@@ -284,18 +403,569 @@ describe("Tracing", () => {
         serviceName: "test-service",
       });
 
-      // Start a span and verify context
-      const span = tracer.startSpan("test");
-      const context = tracer.getCurrentContext();
+      tracer.startActiveSpan("test", (span) => {
+        const context = tracer.getCurrentContext();
 
-      expect(context.traceId).toBe(span.context.traceId);
-      expect(context.spanId).toBe(span.context.spanId);
+        expect(context.traceId).toBe(span.context.traceId);
+        expect(context.spanId).toBe(span.context.spanId);
+        span.end();
+      });
 
-      // End the span
+      // Outside the callback there is no active span
+      expect(tracer.getCurrentContext()).toEqual({});
+    });
+
+    test("startSpan parents to the active span", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+      });
+
+      tracer.startActiveSpan("parent", (parent) => {
+        const child = tracer.startSpan("child");
+        const root = tracer.startSpan("root", { parent: null });
+
+        expect(child.context.traceId).toBe(parent.context.traceId);
+        expect(child.parentSpanId).toBe(parent.context.spanId);
+        expect(root.context.traceId).not.toBe(parent.context.traceId);
+        expect(root.parentSpanId).toBeUndefined();
+      });
+    });
+
+    test("startActiveSpan accepts span options", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+      });
+
+      const kind = tracer.startActiveSpan(
+        "consumer",
+        { kind: "consumer" },
+        (span) => span.spanKind,
+      );
+
+      expect(kind).toBe("consumer");
+    });
+
+    test("keeps active spans isolated across concurrent async chains", async () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+      });
+
+      const run = (name: string, delay: number) =>
+        tracer.startActiveSpan(name, async (span) => {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          const child = tracer.startSpan(`${name}.child`);
+          const carrier = tracer.inject({});
+          span.end();
+          return { span, child, carrier };
+        });
+
+      const [a, b] = await Promise.all([run("a", 20), run("b", 5)]);
+
+      expect(a.child.parentSpanId).toBe(a.span.context.spanId);
+      expect(b.child.parentSpanId).toBe(b.span.context.spanId);
+      expect(a.carrier.traceparent).toContain(a.span.context.spanId);
+      expect(b.carrier.traceparent).toContain(b.span.context.spanId);
+    });
+  });
+
+  describe("context", () => {
+    test("with() sets the active span for the callback only", () => {
+      const span = new LoggySpan("test", "service", {
+        traceId: generateTraceId(),
+      });
+
+      expect(context.activeSpan()).toBeUndefined();
+      context.with(span, () => {
+        expect(context.activeSpan()).toBe(span);
+      });
+      expect(context.activeSpan()).toBeUndefined();
+    });
+  });
+
+  describe("sampling", () => {
+    test("unsampled spans are non-recording and never exported", async () => {
+      const transport = new MemoryTransport<SpanBatch>();
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        transport,
+        sampler: new AlwaysOffSampler(),
+      });
+
+      const span = tracer.startSpan("dropped", { attributes: { a: 1 } });
+      span.setAttribute("b", 2);
       span.end();
+      await tracer.flush();
+
+      expect(span.isRecording()).toBe(false);
+      expect(span.context.traceFlags).toBe(0);
+      expect(span.toData().attributes).toBeUndefined();
+      expect(transport.batches).toHaveLength(0);
+      await tracer.destroy();
+    });
+
+    test("honors the sampled flag of an incoming traceparent", () => {
+      const tracer = new LoggyTracer({ serviceName: "test-service" });
+      const traceId = generateTraceId();
+
+      const unsampled = tracer.startSpan("server", {
+        parent: tracer.extract({
+          traceparent: `00-${traceId}-${generateSpanId()}-00`,
+        }),
+      });
+      const sampled = tracer.startSpan("server", {
+        parent: tracer.extract({
+          traceparent: `00-${traceId}-${generateSpanId()}-01`,
+        }),
+      });
+
+      expect(unsampled.isRecording()).toBe(false);
+      expect(sampled.isRecording()).toBe(true);
+    });
+
+    test("propagates the unsampled flag downstream", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        sampler: new AlwaysOffSampler(),
+      });
+
+      const carrier = tracer.startActiveSpan("request", () =>
+        tracer.inject({}),
+      );
+
+      expect(carrier.traceparent).toMatch(/-00$/);
+    });
+
+    test("children follow the parent's decision with the parent-based sampler", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        sampler: new ParentBasedSampler(new AlwaysOffSampler()),
+      });
+
+      tracer.startActiveSpan("root", (root) => {
+        const child = tracer.startSpan("child");
+        expect(root.isRecording()).toBe(false);
+        expect(child.isRecording()).toBe(false);
+        expect(child.context.traceId).toBe(root.context.traceId);
+      });
+    });
+
+    test("ratio sampler keeps roughly the configured fraction", () => {
+      const sampler = new TraceIdRatioSampler(0.25);
+      let kept = 0;
+      for (let i = 0; i < 2000; i++) {
+        const traceId = generateTraceId();
+        if (
+          sampler.shouldSample({
+            traceId,
+            operationName: "op",
+            kind: "internal",
+          })
+        ) {
+          kept++;
+        }
+      }
+
+      expect(kept).toBeGreaterThan(400);
+      expect(kept).toBeLessThan(600);
+    });
+
+    test("ratio sampler decides consistently per trace ID", () => {
+      const traceId = generateTraceId();
+      const params = {
+        traceId,
+        operationName: "op",
+        kind: "internal" as const,
+      };
+
+      expect(new TraceIdRatioSampler(0).shouldSample(params)).toBe(false);
+      expect(new TraceIdRatioSampler(1).shouldSample(params)).toBe(true);
+      expect(new AlwaysOnSampler().shouldSample()).toBe(true);
+    });
+  });
+
+  describe("tail sampling", () => {
+    const createTracer = (tailSampling: TailSamplingOptions) => {
+      const transport = new MemoryTransport<SpanBatch>();
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        transport,
+        tailSampling,
+      });
+      const exported = async () => {
+        await tracer.flush();
+        return transport.batches.flatMap((batch) => batch.spans);
+      };
+      return { tracer, exported };
+    };
+
+    test("keeps traces containing an error", async () => {
+      const { tracer, exported } = createTracer({});
+
+      tracer.startActiveSpan("request", (root) => {
+        const child = tracer.startSpan("db.query");
+        child.setStatus("error", "timeout");
+        child.end();
+        root.end();
+      });
+      tracer.startActiveSpan("healthy", (root) => root.end());
+
+      const spans = await exported();
+      expect(spans.map((span) => span.operationName)).toEqual([
+        "db.query",
+        "request",
+      ]);
+      await tracer.destroy();
+    });
+
+    test("keeps traces whose root is slow", async () => {
+      const { tracer, exported } = createTracer({ minDurationMs: 500 });
+      const start = new Date("2024-01-01T00:00:00.000Z");
+
+      tracer
+        .startSpan("slow", { startTime: start })
+        .end(new Date(start.getTime() + 800));
+      tracer
+        .startSpan("fast", { startTime: start })
+        .end(new Date(start.getTime() + 100));
+
+      const spans = await exported();
+      expect(spans.map((span) => span.operationName)).toEqual(["slow"]);
+      await tracer.destroy();
+    });
+
+    test("holds spans until the local root ends", async () => {
+      const { tracer, exported } = createTracer({ ratio: 1 });
+
+      const root = tracer.startSpan("request");
+      tracer.startSpan("child", { parent: root.context }).end();
+      expect(await exported()).toHaveLength(0);
 
-      // After ending, context should be empty (no active spans for this tracer)
-      // Note: The global activeSpans map may have spans from other tests
+      root.end();
+      expect(await exported()).toHaveLength(2);
+      await tracer.destroy();
+    });
+
+    test("treats the first span of a remote trace as the local root", async () => {
+      const { tracer, exported } = createTracer({ ratio: 1 });
+      const parent = tracer.extract({
+        traceparent: `00-${generateTraceId()}-${generateSpanId()}-01`,
+      });
+
+      const root = tracer.startSpan("server", { parent });
+      root.end();
+
+      expect(await exported()).toHaveLength(1);
+      await tracer.destroy();
+    });
+
+    test("spans ending after their root follow the decision", async () => {
+      const { tracer, exported } = createTracer({ ratio: 1 });
+
+      const root = tracer.startSpan("request");
+      const late = tracer.startSpan("background", { parent: root.context });
+      root.end();
+      late.end();
+
+      expect(await exported()).toHaveLength(2);
+      await tracer.destroy();
+    });
+
+    test("decides the oldest trace early when too many are held", async () => {
+      const { tracer, exported } = createTracer({
+        maxTraces: 1,
+        rules: [(spans) => spans.some((span) => span.operationName === "a")],
+      });
+
+      const a = tracer.startSpan("a-root");
+      tracer.startSpan("a", { parent: a.context }).end();
+      tracer.startSpan("b-root");
+
+      const spans = await exported();
+      expect(spans.map((span) => span.operationName)).toEqual(["a"]);
+      await tracer.destroy();
+    });
+
+    test("decides incomplete traces after decisionWaitMs", () => {
+      const kept: SpanData[] = [];
+      const sampler = new TailSampler(
+        { ratio: 1, decisionWaitMs: 1000 },
+        (span) => kept.push(span),
+      );
+      const tracer = new LoggyTracer({ serviceName: "test-service" });
+      const root = tracer.startSpan("request");
+      const child = tracer.startSpan("child", { parent: root.context });
+
+      sampler.onStart(root);
+      sampler.onEnd({ ...child.toData(), endTime: new Date().toISOString() });
+      sampler.sweep(Date.now() + 500);
+      expect(sampler.pendingCount).toBe(1);
+
+      sampler.sweep(Date.now() + 1000);
+      expect(sampler.pendingCount).toBe(0);
+      expect(kept).toHaveLength(1);
+    });
+
+    test("runs before span processors, with or without a transport", async () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        tailSampling: {},
+      });
+      const ended: SpanData[] = [];
+      tracer.addSpanProcessor({ onEnd: (span) => void ended.push(span) });
+
+      tracer.startActiveSpan("failing", (root) => {
+        root.setStatus("error", "boom");
+        root.end();
+      });
+      tracer.startActiveSpan("healthy", (root) => root.end());
+
+      expect(ended.map((span) => span.operationName)).toEqual(["failing"]);
+      await tracer.destroy();
+    });
+
+    test("decides held traces on destroy", async () => {
+      const transport = new MemoryTransport<SpanBatch>();
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        transport,
+        tailSampling: { ratio: 1 },
+      });
+
+      const root = tracer.startSpan("request");
+      tracer.startSpan("child", { parent: root.context }).end();
+      await tracer.destroy();
+
+      expect(transport.batches.flatMap((batch) => batch.spans)).toHaveLength(1);
+    });
+  });
+
+  describe("span processors", () => {
+    test("onStart can enrich spans before they are exported", async () => {
+      const transport = new MemoryTransport<SpanBatch>();
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        transport,
+      });
+      tracer.addSpanProcessor({
+        onStart: (span) => span.setAttribute("region", "eu-west-1"),
+      });
+
+      tracer.startSpan("work").end();
+      await tracer.flush();
+
+      expect(transport.batches[0].spans[0].attributes).toEqual({
+        region: "eu-west-1",
+      });
+      await tracer.destroy();
+    });
+
+    test("onEnd returning false filters the span out", async () => {
+      const transport = new MemoryTransport<SpanBatch>();
+      const seen: string[] = [];
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        transport,
+      });
+      tracer.addSpanProcessor({
+        onEnd: (span) => span.operationName !== "GET /health",
+      });
+      tracer.addSpanProcessor({
+        onEnd: (span) => {
+          seen.push(span.operationName);
+        },
+      });
+
+      tracer.startSpan("GET /health").end();
+      tracer.startSpan("GET /users").end();
+      await tracer.flush();
+
+      expect(seen).toEqual(["GET /users"]);
+      expect(
+        transport.batches[0].spans.map((span) => span.operationName),
+      ).toEqual(["GET /users"]);
+      await tracer.destroy();
+    });
+
+    test("runs processors without a transport", () => {
+      const tracer = new LoggyTracer({ serviceName: "test-service" });
+      const onEnd = jest.fn();
+      tracer.addSpanProcessor({ onEnd });
+
+      tracer.startSpan("work").end();
+
+      expect(onEnd).toHaveBeenCalledWith(
+        expect.objectContaining({ operationName: "work" }),
+      );
+    });
+
+    test("skips unsampled spans", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        sampler: new AlwaysOffSampler(),
+      });
+      const processor = { onStart: jest.fn(), onEnd: jest.fn() };
+      tracer.addSpanProcessor(processor);
+
+      tracer.startSpan("work").end();
+
+      expect(processor.onStart).not.toHaveBeenCalled();
+      expect(processor.onEnd).not.toHaveBeenCalled();
+    });
+
+    test("exports to several destinations", async () => {
+      const primary = new MemoryTransport<SpanBatch>();
+      const secondary = new MemoryTransport<SpanBatch>();
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        transport: primary,
+      });
+      tracer.addSpanProcessor(new SimpleSpanProcessor(secondary));
+
+      tracer.startSpan("work").end();
+      await tracer.flush();
+
+      expect(primary.batches).toHaveLength(1);
+      expect(secondary.batches).toHaveLength(1);
+
+      await tracer.destroy();
+      expect(secondary.closed).toBe(true);
+    });
+
+    test("batch processor sends once batchSize is reached", async () => {
+      const transport = new MemoryTransport<SpanBatch>();
+      const processor = new BatchSpanProcessor({ transport, batchSize: 2 });
+      const tracer = new LoggyTracer({ serviceName: "test-service" });
+      tracer.addSpanProcessor(processor);
+
+      tracer.startSpan("first").end();
+      expect(transport.batches).toHaveLength(0);
+      tracer.startSpan("second").end();
+      await Promise.resolve();
+
+      expect(transport.batches[0].spans).toHaveLength(2);
+      await tracer.destroy();
+    });
+  });
+
+  describe("propagators", () => {
+    const spanContext = {
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      spanId: "b7ad6b7169203331",
+      traceFlags: 1,
+    };
+
+    test("B3 single header round-trips", () => {
+      const propagator = new B3SinglePropagator();
+      const carrier: Record<string, string> = {};
+
+      propagator.inject(spanContext, carrier);
+
+      expect(carrier.b3).toBe(
+        "0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-1",
+      );
+      expect(propagator.extract(carrier)).toEqual(spanContext);
+    });
+
+    test("B3 single header accepts 64-bit trace IDs, debug and parent", () => {
+      const propagator = new B3SinglePropagator();
+
+      expect(
+        propagator.extract({
+          b3: "8448eb211c80319c-b7ad6b7169203331-d-05e3ac9a4f6e3b90",
+        }),
+      ).toEqual({
+        traceId: "00000000000000008448eb211c80319c",
+        spanId: "b7ad6b7169203331",
+        traceFlags: 1,
+      });
+      expect(
+        propagator.extract({ b3: "8448eb211c80319c-b7ad6b7169203331-0" })
+          ?.traceFlags,
+      ).toBe(0);
+      expect(propagator.extract({ b3: "0" })).toBeNull();
+      expect(propagator.extract({ b3: "xyz-b7ad6b7169203331" })).toBeNull();
+    });
+
+    test("B3 multi headers round-trip regardless of header case", () => {
+      const propagator = new B3MultiPropagator();
+      const carrier: Record<string, string> = {};
+
+      propagator.inject({ ...spanContext, traceFlags: 0 }, carrier);
+
+      expect(carrier).toEqual({
+        "x-b3-traceid": spanContext.traceId,
+        "x-b3-spanid": spanContext.spanId,
+        "x-b3-sampled": "0",
+      });
+      expect(
+        propagator.extract({
+          "X-B3-TraceId": spanContext.traceId,
+          "X-B3-SpanId": spanContext.spanId,
+          "X-B3-Sampled": "0",
+          "X-B3-Flags": "1",
+        }),
+      ).toEqual(spanContext);
+      expect(
+        propagator.extract({ "x-b3-traceid": spanContext.traceId }),
+      ).toBeNull();
+    });
+
+    test("Jaeger header round-trips and accepts short, encoded IDs", () => {
+      const propagator = new JaegerPropagator();
+      const carrier: Record<string, string> = {};
+
+      propagator.inject(spanContext, carrier);
+
+      expect(carrier["uber-trace-id"]).toBe(
+        "0af7651916cd43dd8448eb211c80319c:b7ad6b7169203331:0:1",
+      );
+      expect(propagator.extract(carrier)).toEqual(spanContext);
+      expect(
+        propagator.extract({ "uber-trace-id": "abc%3A7b%3A0%3A0" }),
+      ).toEqual({
+        traceId: "00000000000000000000000000000abc",
+        spanId: "000000000000007b",
+        traceFlags: 0,
+      });
+      expect(propagator.extract({ "uber-trace-id": "0:7b:0:1" })).toBeNull();
+    });
+
+    test("composite injects every format and extracts the first found", () => {
+      const propagator = new CompositePropagator([
+        new W3CTraceContextPropagator(),
+        new B3SinglePropagator(),
+      ]);
+      const carrier: Record<string, string> = {};
+
+      propagator.inject(spanContext, carrier);
+
+      expect(Object.keys(carrier)).toEqual(["traceparent", "b3"]);
+      expect(
+        propagator.extract({
+          b3: "8448eb211c80319c-b7ad6b7169203331-1",
+        })?.traceId,
+      ).toBe("00000000000000008448eb211c80319c");
+    });
+
+    test("tracer uses the configured propagators", () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+        propagators: [new JaegerPropagator(), new B3MultiPropagator()],
+      });
+
+      const parent = tracer.extract({
+        "x-b3-traceid": spanContext.traceId,
+        "x-b3-spanid": spanContext.spanId,
+      });
+      const carrier = tracer.startActiveSpan("request", { parent }, () =>
+        tracer.inject({}),
+      );
+
+      expect(carrier.traceparent).toBeUndefined();
+      expect(carrier["uber-trace-id"]).toMatch(
+        new RegExp(`^${spanContext.traceId}:[0-9a-f]{16}:0:1$`),
+      );
+      expect(carrier["x-b3-traceid"]).toBe(spanContext.traceId);
     });
   });
 
@@ -362,6 +1032,28 @@ describe("Tracing", () => {
       expect(capturedSpan?.isRecording()).toBe(false);
     });
 
+    test("parents nested spans to the enclosing withSpan", async () => {
+      const tracer = new LoggyTracer({
+        serviceName: "test-service",
+      });
+
+      const spans: LoggySpan[] = [];
+      const originalStartSpan = tracer.startSpan.bind(tracer);
+      tracer.startSpan = (name, options) => {
+        const span = originalStartSpan(name, options);
+        spans.push(span);
+        return span;
+      };
+
+      await withSpan(tracer, "outer", () =>
+        withSpan(tracer, "inner", async () => "done"),
+      );
+
+      const [outer, inner] = spans;
+      expect(inner.parentSpanId).toBe(outer.context.spanId);
+      expect(inner.context.traceId).toBe(outer.context.traceId);
+    });
+
     test("passes attributes to span", async () => {
       const tracer = new LoggyTracer({
         serviceName: "test-service",
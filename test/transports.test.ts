@@ -0,0 +1,137 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough } from "node:stream";
+import { CreateLoggy, type LogBatch } from "../src/index";
+import { CreateMetrics, type MetricBatch } from "../src/metrics";
+import { LoggyTracer, type SpanBatch } from "../src/tracing";
+import {
+  FileTransport,
+  HttpTransport,
+  MemoryTransport,
+  StdoutTransport,
+} from "../src/transports";
+
+const mockFetch = jest.fn();
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  global.fetch = mockFetch as any;
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+describe("HttpTransport", () => {
+  test("posts JSON with the loggy token", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true });
+    const transport = new HttpTransport({
+      endpoint: "https://test.loggy.dev/ingest",
+      token: "test-token",
+      headers: { "x-extra": "1" },
+    });
+
+    await transport.send({ logs: [] });
+
+    expect(mockFetch).toHaveBeenCalledWith("https://test.loggy.dev/ingest", {
+      method: "POST",
+      headers: {
+        "x-extra": "1",
+        "Content-Type": "application/json",
+        "x-loggy-token": "test-token",
+      },
+      body: JSON.stringify({ logs: [] }),
+    });
+  });
+
+  test("rejects on a non-2xx response", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    const transport = new HttpTransport({ endpoint: "https://test" });
+
+    await expect(transport.send({})).rejects.toThrow("HTTP 503");
+  });
+});
+
+describe("FileTransport", () => {
+  test("appends one JSON line per batch", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "loggy-"));
+    const path = join(dir, "out.ndjson");
+    const transport = new FileTransport({ path });
+
+    transport.send({ n: 1 });
+    transport.send({ n: 2 });
+    await transport.close();
+
+    expect(readFileSync(path, "utf8")).toBe('{"n":1}\n{"n":2}\n');
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("StdoutTransport", () => {
+  test("writes one JSON line per batch to the stream", async () => {
+    const stream = new PassThrough();
+    const transport = new StdoutTransport({ stream });
+
+    await transport.send({ n: 1 });
+
+    expect(stream.read().toString()).toBe('{"n":1}\n');
+  });
+});
+
+describe("custom transports", () => {
+  test("CreateLoggy sends batches through the transport", async () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const transport = new MemoryTransport<LogBatch>();
+    const loggy = CreateLoggy({ identifier: "test", transport });
+
+    loggy.info("hello");
+    await loggy.flush();
+
+    expect(transport.batches).toHaveLength(1);
+    expect(transport.batches[0].logs[0].message).toBe("hello");
+
+    await loggy.destroy();
+    expect(transport.closed).toBe(true);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("CreateLoggy keeps logs buffered when the transport fails", async () => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    const transport = new MemoryTransport<LogBatch>();
+    const send = jest
+      .spyOn(transport, "send")
+      .mockRejectedValueOnce(new Error("offline"));
+    const loggy = CreateLoggy({ identifier: "test", transport });
+
+    loggy.info("hello");
+    await loggy.flush();
+    await loggy.destroy();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0].logs[0].message).toBe("hello");
+  });
+
+  test("LoggyTracer sends ended spans through the transport", async () => {
+    const transport = new MemoryTransport<SpanBatch>();
+    const tracer = new LoggyTracer({ serviceName: "test-service", transport });
+
+    tracer.startSpan("op").end();
+    await tracer.destroy();
+
+    expect(transport.batches[0].spans[0].operationName).toBe("op");
+    expect(transport.closed).toBe(true);
+  });
+
+  test("CreateMetrics sends buckets through the transport", async () => {
+    const transport = new MemoryTransport<MetricBatch>();
+    const metrics = CreateMetrics({ transport });
+
+    metrics.record({ durationMs: 10, statusCode: 200 });
+    await metrics.destroy();
+
+    expect(transport.batches[0].metrics[0].requestCount).toBe(1);
+    expect(transport.closed).toBe(true);
+  });
+});